@@ -0,0 +1,13 @@
+import { PerformanceBudget } from '../helpers/api.performance';
+
+/**
+ * Latency budgets per endpoint, measured by the performance tests
+ * Tighten a budget here when an endpoint gets faster; a breach fails the build.
+ */
+export const ApiPerformanceBudgets: PerformanceBudget[] = [
+  { endpoint: '/posts', samples: 10, p50Ms: 500, p95Ms: 1500 },
+  { endpoint: '/posts/1', samples: 10, p50Ms: 300, p95Ms: 1000 },
+  { endpoint: '/posts/1/comments', samples: 10, p50Ms: 300, p95Ms: 1000 },
+  { endpoint: '/users', samples: 10, p50Ms: 300, p95Ms: 1000 },
+  { method: 'POST', endpoint: '/posts', data: { title: 'Budget', body: 'Latency sample', userId: 1 }, samples: 5, p50Ms: 500, p95Ms: 1500 },
+];
@@ -2,7 +2,16 @@ import { Page, APIRequestContext } from '@playwright/test';
 import { PlaywrightHomePage } from '../pages/playwright-home.page';
 import { TodoPage } from '../pages/todo.page';
 import { LocalStorageHelper } from '../helpers/localStorage.helper';
-import { ApiHelper } from '../helpers/api.helper';
+import { StorageHelper, StorageHelperOptions } from '../helpers/storage.helper';
+import { IndexedDbHelper } from '../helpers/indexedDb.helper';
+import { CookieHelper } from '../helpers/cookie.helper';
+import { StorageStateHelper } from '../helpers/storageState.helper';
+import { ApiHelper, ApiHelperOptions, ApiInterceptor } from '../helpers/api.helper';
+import { AuthProvider } from '../helpers/api.auth';
+import { ApiClient } from '../helpers/api.resources';
+import { OpenApiContract } from '../helpers/api.contract';
+import { Cassette } from '../helpers/api.cassette';
+import { GraphQLHelper } from '../helpers/graphql.helper';
 
 /**
  * Interface for all page dependencies that require a Playwright Page instance
@@ -11,6 +20,9 @@ interface PageDependencies {
   playwrightHomePage: PlaywrightHomePage;
   todoPage: TodoPage;
   localStorageHelper: LocalStorageHelper;
+  indexedDbHelper: IndexedDbHelper;
+  cookieHelper: CookieHelper;
+  storageStateHelper: StorageStateHelper;
 }
 
 /**
@@ -18,6 +30,9 @@ interface PageDependencies {
  */
 interface ApiDependencies {
   apiHelper: ApiHelper;
+  apiClient: ApiClient;
+  /** Undefined when no GraphQL endpoint is configured */
+  graphqlHelper?: GraphQLHelper;
 }
 
 /**
@@ -25,6 +40,25 @@ interface ApiDependencies {
  */
 export interface TestDependencies extends PageDependencies, ApiDependencies {}
 
+/**
+ * Options used to configure the DependencyContainer
+ */
+export interface DependencyContainerOptions {
+  baseURL?: string;
+  /** Absolute GraphQL endpoint URL, defaults to GRAPHQL_URL */
+  graphqlURL?: string;
+  /** Interceptors registered on every ApiHelper the container creates */
+  apiInterceptors?: ApiInterceptor[];
+  /** Authentication provider attached to every ApiHelper the container creates */
+  apiAuth?: AuthProvider;
+  /** OpenAPI contract every ApiHelper exchange is checked against */
+  apiContract?: OpenApiContract;
+  /** Cassette every ApiHelper records to or replays from */
+  apiCassette?: Cassette;
+  /** Directory of named storage snapshots, defaults to STORAGE_SNAPSHOT_DIR or storage-snapshots */
+  storageSnapshotDir?: string;
+}
+
 /**
  * DependencyContainer class that manages all test dependencies.
  * This class follows the Dependency Injection pattern to provide
@@ -40,17 +74,44 @@ export class DependencyContainer {
   private page: Page | null = null;
   private request: APIRequestContext | null = null;
   private baseURL: string;
+  private graphqlURL?: string;
+  private apiInterceptors: ApiInterceptor[];
+  private apiAuth?: AuthProvider;
+  private apiContract?: OpenApiContract;
+  private apiCassette?: Cassette;
+  private storageSnapshotDir?: string;
 
   // Cached instances for page dependencies
   private _playwrightHomePage: PlaywrightHomePage | null = null;
   private _todoPage: TodoPage | null = null;
   private _localStorageHelper: LocalStorageHelper | null = null;
+  private _indexedDbHelper: IndexedDbHelper | null = null;
+  private _cookieHelper: CookieHelper | null = null;
+  private _storageStateHelper: StorageStateHelper | null = null;
 
-  // Cached instance for API dependencies
+  // Cached instances for API dependencies
   private _apiHelper: ApiHelper | null = null;
+  private _apiClient: ApiClient | null = null;
+  private _graphqlHelper: GraphQLHelper | null = null;
 
-  constructor(options?: { baseURL?: string }) {
-    this.baseURL = options?.baseURL || process.env.BASE_URL || process.env.API_BASE_URL || 'https://jsonplaceholder.typicode.com';
+  constructor(options?: DependencyContainerOptions) {
+    this.baseURL = options?.baseURL || process.env.API_BASE_URL || 'https://jsonplaceholder.typicode.com';
+    this.graphqlURL = options?.graphqlURL || process.env.GRAPHQL_URL;
+    this.apiInterceptors = options?.apiInterceptors || [];
+    this.apiAuth = options?.apiAuth;
+    this.apiContract = options?.apiContract;
+    this.apiCassette = options?.apiCassette;
+    this.storageSnapshotDir = options?.storageSnapshotDir;
+  }
+
+  /**
+   * Options shared by every ApiHelper the container creates
+   */
+  private get apiHelperOptions(): ApiHelperOptions {
+    const interceptors = this.apiContract
+      ? [...this.apiInterceptors, this.apiContract.interceptor()]
+      : this.apiInterceptors;
+    return { interceptors, auth: this.apiAuth, cassette: this.apiCassette };
   }
 
   /**
@@ -61,6 +122,9 @@ export class DependencyContainer {
     this._playwrightHomePage = null;
     this._todoPage = null;
     this._localStorageHelper = null;
+    this._indexedDbHelper = null;
+    this._cookieHelper = null;
+    this._storageStateHelper = null;
   }
 
   /**
@@ -69,13 +133,17 @@ export class DependencyContainer {
    */
   private clearApiCache(): void {
     this._apiHelper = null;
+    this._apiClient = null;
+    this._graphqlHelper = null;
   }
 
   /**
    * Initialize the container with a Playwright Page instance
-   * Call this method to enable page-based dependencies
+   * Call this method to enable page-based dependencies; calling it again
+   * with the same page keeps the cached instances
    */
   initializePage(page: Page): void {
+    if (this.page === page) return;
     this.page = page;
     this.clearPageCache();
   }
@@ -112,7 +180,7 @@ export class DependencyContainer {
       throw new Error('Page not initialized. Call initializePage() first.');
     }
     if (!this._todoPage) {
-      this._todoPage = new TodoPage(this.page);
+      this._todoPage = new TodoPage(this.page, this.localStorageHelper);
     }
     return this._todoPage;
   }
@@ -131,6 +199,48 @@ export class DependencyContainer {
     return this._localStorageHelper;
   }
 
+  /**
+   * Get the IndexedDbHelper instance
+   * Lazily creates and caches the instance
+   */
+  get indexedDbHelper(): IndexedDbHelper {
+    if (!this.page) {
+      throw new Error('Page not initialized. Call initializePage() first.');
+    }
+    if (!this._indexedDbHelper) {
+      this._indexedDbHelper = new IndexedDbHelper(this.page);
+    }
+    return this._indexedDbHelper;
+  }
+
+  /**
+   * Get the CookieHelper instance
+   * Lazily creates and caches the instance
+   */
+  get cookieHelper(): CookieHelper {
+    if (!this.page) {
+      throw new Error('Page not initialized. Call initializePage() first.');
+    }
+    if (!this._cookieHelper) {
+      this._cookieHelper = new CookieHelper(this.page);
+    }
+    return this._cookieHelper;
+  }
+
+  /**
+   * Get the StorageStateHelper instance
+   * Lazily creates and caches the instance
+   */
+  get storageStateHelper(): StorageStateHelper {
+    if (!this.page) {
+      throw new Error('Page not initialized. Call initializePage() first.');
+    }
+    if (!this._storageStateHelper) {
+      this._storageStateHelper = new StorageStateHelper(this.page, this.storageSnapshotDir);
+    }
+    return this._storageStateHelper;
+  }
+
   /**
    * Get the ApiHelper instance
    * Lazily creates and caches the instance
@@ -140,11 +250,45 @@ export class DependencyContainer {
       throw new Error('API request context not initialized. Call initializeApi() first.');
     }
     if (!this._apiHelper) {
-      this._apiHelper = new ApiHelper(this.request, this.baseURL);
+      this._apiHelper = new ApiHelper(this.request, this.baseURL, this.apiHelperOptions);
     }
     return this._apiHelper;
   }
 
+  /**
+   * Get the ApiClient instance with typed resource clients
+   * Lazily creates and caches the instance on top of the cached ApiHelper
+   */
+  get apiClient(): ApiClient {
+    if (!this._apiClient) {
+      this._apiClient = new ApiClient(this.apiHelper);
+    }
+    return this._apiClient;
+  }
+
+  /**
+   * Get the GraphQLHelper instance
+   * Shares the interceptors, auth provider and cassette of the REST helper;
+   * the OpenAPI contract is not applied to GraphQL traffic
+   */
+  get graphqlHelper(): GraphQLHelper {
+    if (!this.request) {
+      throw new Error('API request context not initialized. Call initializeApi() first.');
+    }
+    if (!this.graphqlURL) {
+      throw new Error('GraphQL endpoint not configured. Set GRAPHQL_URL or pass graphqlURL to the container.');
+    }
+    if (!this._graphqlHelper) {
+      const apiHelper = new ApiHelper(this.request, this.graphqlURL, {
+        interceptors: this.apiInterceptors,
+        auth: this.apiAuth,
+        cassette: this.apiCassette,
+      });
+      this._graphqlHelper = new GraphQLHelper(apiHelper, { endpoint: '' });
+    }
+    return this._graphqlHelper;
+  }
+
   /**
    * Create a new instance of PlaywrightHomePage (non-cached)
    * Use this if you need a fresh instance
@@ -164,7 +308,7 @@ export class DependencyContainer {
     if (!this.page) {
       throw new Error('Page not initialized. Call initializePage() first.');
     }
-    return new TodoPage(this.page);
+    return new TodoPage(this.page, this.localStorageHelper);
   }
 
   /**
@@ -178,6 +322,18 @@ export class DependencyContainer {
     return new LocalStorageHelper(this.page);
   }
 
+  /**
+   * Create a StorageHelper for any localStorage or sessionStorage key (non-cached)
+   * @param storageKey - Key to read and write
+   * @param options - Storage area, codec, validator and default value
+   */
+  createStorageHelper<T>(storageKey: string, options?: StorageHelperOptions<T>): StorageHelper<T> {
+    if (!this.page) {
+      throw new Error('Page not initialized. Call initializePage() first.');
+    }
+    return new StorageHelper<T>(this.page, storageKey, options);
+  }
+
   /**
    * Create a new instance of ApiHelper (non-cached)
    * Use this if you need a fresh instance
@@ -186,7 +342,15 @@ export class DependencyContainer {
     if (!this.request) {
       throw new Error('API request context not initialized. Call initializeApi() first.');
     }
-    return new ApiHelper(this.request, customBaseURL || this.baseURL);
+    return new ApiHelper(this.request, customBaseURL || this.baseURL, this.apiHelperOptions);
+  }
+
+  /**
+   * Create a new instance of ApiClient (non-cached)
+   * Use this if you need a fresh instance
+   */
+  createApiClient(customBaseURL?: string): ApiClient {
+    return new ApiClient(this.createApiHelper(customBaseURL));
   }
 
   /**
@@ -207,16 +371,22 @@ export class DependencyContainer {
     return {
       playwrightHomePage: this.playwrightHomePage,
       todoPage: this.todoPage,
-      localStorageHelper: this.localStorageHelper
+      localStorageHelper: this.localStorageHelper,
+      indexedDbHelper: this.indexedDbHelper,
+      cookieHelper: this.cookieHelper,
+      storageStateHelper: this.storageStateHelper
     };
   }
 
   /**
    * Get all API dependencies at once
+   * graphqlHelper is left out when GRAPHQL_URL is not configured, so REST-only use keeps working
    */
   getApiDependencies(): ApiDependencies {
     return {
-      apiHelper: this.apiHelper
+      apiHelper: this.apiHelper,
+      apiClient: this.apiClient,
+      graphqlHelper: this.graphqlURL ? this.graphqlHelper : undefined
     };
   }
 
@@ -237,6 +407,6 @@ export class DependencyContainer {
 /**
  * Factory function to create a pre-configured DependencyContainer
  */
-export function createDependencyContainer(options?: { baseURL?: string }): DependencyContainer {
+export function createDependencyContainer(options?: DependencyContainerOptions): DependencyContainer {
   return new DependencyContainer(options);
 }
@@ -1,53 +1,187 @@
-﻿import { test as base } from '@playwright/test';
+﻿import * as fs from 'fs';
+import { test as base } from '@playwright/test';
 import { PlaywrightHomePage } from '../pages/playwright-home.page';
 import { TodoPage } from '../pages/todo.page';
 import { LocalStorageHelper } from '../helpers/localStorage.helper';
-import { ApiHelper } from '../helpers/api.helper';
+import { IndexedDbHelper } from '../helpers/indexedDb.helper';
+import { CookieHelper } from '../helpers/cookie.helper';
+import {
+  BrowserStateSnapshot,
+  StorageSeed,
+  StorageStateHelper,
+  loadSnapshot,
+  mergeSnapshots,
+  seedSessionStorage,
+  snapshotFromSeed,
+} from '../helpers/storageState.helper';
+import { ApiHelper, ApiInterceptor } from '../helpers/api.helper';
+import { AuthProvider } from '../helpers/api.auth';
+import { ApiClient } from '../helpers/api.resources';
+import { OpenApiContract } from '../helpers/api.contract';
+import { Cassette, CassetteMode, CassetteOptions } from '../helpers/api.cassette';
+import { GraphQLHelper } from '../helpers/graphql.helper';
+import { PerformanceBudget, PerformanceBudgetRunner } from '../helpers/api.performance';
+import { ApiPerformanceBudgets } from '../data/performance-budgets';
+import { LoadRunner } from '../helpers/api.load';
+import { TodoModelRunner } from '../helpers/todoModel.helper';
 import { DependencyContainer, createDependencyContainer } from './dependency-container';
 
 // Environment configuration
 const ENV = {
   BASE_URL: process.env.BASE_URL || 'https://playwright.dev',
   API_BASE_URL: process.env.API_BASE_URL || 'https://jsonplaceholder.typicode.com',
+  // Set by global setup to the local TodoMVC stand-in unless TODO_APP=demo
   TODO_APP_URL: process.env.TODO_APP_URL || 'https://demo.playwright.dev/todomvc',
+  API_RECORD_MODE: process.env.API_RECORD_MODE as CassetteMode | undefined,
 } as const;
 
 /**
  * Extended test fixtures with Dependency Injection pattern
  */
 export const test = base.extend<{
+  apiInterceptors: ApiInterceptor[];
+  apiAuth: AuthProvider | undefined;
+  apiContract: OpenApiContract | undefined;
+  apiCassette: CassetteOptions | undefined;
+  apiBudgets: PerformanceBudget[];
+  storageSeed: StorageSeed | undefined;
+  storageSnapshot: string | undefined;
+  storageSnapshotDir: string | undefined;
+  initialStorage: BrowserStateSnapshot | undefined;
   dependencyContainer: DependencyContainer;
   playwrightHomePage: PlaywrightHomePage;
   todoPage: TodoPage;
   localStorageHelper: LocalStorageHelper;
+  indexedDbHelper: IndexedDbHelper;
+  cookieHelper: CookieHelper;
+  storageStateHelper: StorageStateHelper;
+  todoModelRunner: TodoModelRunner;
   apiHelper: ApiHelper;
+  apiClient: ApiClient;
+  graphqlHelper: GraphQLHelper;
+  performanceBudgets: PerformanceBudgetRunner;
+  loadRunner: LoadRunner;
 }>({
-  dependencyContainer: async ({ page, request }, use) => {
-    const container = createDependencyContainer();
-    container.initializePage(page);
+  // Interceptors applied to every ApiHelper; override via `use` in the config or test.use()
+  apiInterceptors: [[], { option: true }],
+  // Authentication provider for every ApiHelper; OAuth2 tokens are cached per worker
+  apiAuth: [undefined, { option: true }],
+  // OpenAPI contract mode: every ApiHelper call is checked against the loaded document
+  apiContract: [undefined, { option: true }],
+  // Record/replay API traffic to per-test cassettes; defaults to the API_RECORD_MODE environment variable
+  apiCassette: [ENV.API_RECORD_MODE ? { mode: ENV.API_RECORD_MODE } : undefined, { option: true }],
+  // Per-endpoint latency budgets, configured in data/performance-budgets.ts
+  apiBudgets: [ApiPerformanceBudgets, { option: true }],
+  // Initial localStorage, sessionStorage and cookies, in place before any page script runs
+  storageSeed: [undefined, { option: true }],
+  // Name of a snapshot saved with storageStateHelper.snapshot(name) to start the context from
+  storageSnapshot: [undefined, { option: true }],
+  // Where named snapshots are saved and loaded; defaults to STORAGE_SNAPSHOT_DIR or storage-snapshots
+  storageSnapshotDir: [undefined, { option: true }],
+
+  // Named snapshot overlaid with the seed; the seed wins on conflicts
+  initialStorage: async ({ storageSeed, storageSnapshot, storageSnapshotDir }, use) => {
+    await use(mergeSnapshots(
+      storageSnapshot ? loadSnapshot(storageSnapshot, storageSnapshotDir) : undefined,
+      storageSeed ? snapshotFromSeed(storageSeed) : undefined
+    ));
+  },
+
+  // Cookies, localStorage and IndexedDB go through the context's own storage state
+  storageState: async ({ storageState, initialStorage }, use) => {
+    if (!initialStorage) {
+      await use(storageState);
+      return;
+    }
+    const configured = typeof storageState === 'string' ? JSON.parse(fs.readFileSync(storageState, 'utf-8')) : storageState;
+    const merged = mergeSnapshots(configured && { storageState: configured, sessionStorage: {}, takenAt: '' }, initialStorage);
+    await use(merged?.storageState);
+  },
+
+  // sessionStorage has no context-level equivalent, so it is written by an init script
+  context: async ({ context, initialStorage }, use) => {
+    await seedSessionStorage(context, initialStorage?.sessionStorage ?? {});
+    await use(context);
+  },
+
+  // The page is attached by the page fixtures below, so API-only tests never launch a browser
+  dependencyContainer: async ({ request, apiInterceptors, apiAuth, apiContract, apiCassette, storageSnapshotDir }, use, testInfo) => {
+    const cassette = apiCassette ? Cassette.forTest(testInfo, apiCassette) : undefined;
+    const container = createDependencyContainer({ apiInterceptors, apiAuth, apiContract, apiCassette: cassette, storageSnapshotDir });
     container.initializeApi(request);
     await use(container);
+    cassette?.save();
     container.clearCache();
   },
 
-  playwrightHomePage: async ({ dependencyContainer }, use) => {
+  playwrightHomePage: async ({ dependencyContainer, page }, use) => {
+    dependencyContainer.initializePage(page);
     await use(dependencyContainer.playwrightHomePage);
   },
 
-  todoPage: async ({ dependencyContainer }, use) => {
+  todoPage: async ({ dependencyContainer, page }, use) => {
+    dependencyContainer.initializePage(page);
     await use(dependencyContainer.todoPage);
   },
 
-  localStorageHelper: async ({ dependencyContainer }, use) => {
+  localStorageHelper: async ({ dependencyContainer, page }, use) => {
+    dependencyContainer.initializePage(page);
     await use(dependencyContainer.localStorageHelper);
   },
 
+  indexedDbHelper: async ({ dependencyContainer, page }, use) => {
+    dependencyContainer.initializePage(page);
+    await use(dependencyContainer.indexedDbHelper);
+  },
+
+  cookieHelper: async ({ dependencyContainer, page }, use) => {
+    dependencyContainer.initializePage(page);
+    await use(dependencyContainer.cookieHelper);
+  },
+
+  storageStateHelper: async ({ dependencyContainer, page }, use) => {
+    dependencyContainer.initializePage(page);
+    await use(dependencyContainer.storageStateHelper);
+  },
+
+  // Shrunk reproductions of model mismatches are attached to the report
+  todoModelRunner: async ({ todoPage, localStorageHelper }, use, testInfo) => {
+    const runner = new TodoModelRunner(todoPage, localStorageHelper, { url: ENV.TODO_APP_URL });
+    await use(runner);
+    await runner.attach(testInfo);
+  },
+
   apiHelper: async ({ dependencyContainer }, use) => {
     await use(dependencyContainer.apiHelper);
+  },
+
+  apiClient: async ({ dependencyContainer }, use) => {
+    await use(dependencyContainer.apiClient);
+  },
+
+  graphqlHelper: async ({ dependencyContainer }, use) => {
+    await use(dependencyContainer.graphqlHelper);
+  },
+
+  // Measured endpoints are summarised in a table attached to the report, pass or fail
+  performanceBudgets: async ({ apiHelper, apiBudgets }, use, testInfo) => {
+    const runner = new PerformanceBudgetRunner(apiHelper, apiBudgets);
+    await use(runner);
+    await runner.attach(testInfo);
+  },
+
+  // Every load run's statistics and latency histogram are attached to the report;
+  // runs breaching their thresholds then fail the test unless run with failOnThresholds: false
+  loadRunner: async ({ apiHelper }, use, testInfo) => {
+    const runner = new LoadRunner(apiHelper);
+    await use(runner);
+    await runner.attach(testInfo);
+    runner.assertThresholds();
   }
 });
 
-export { expect } from '@playwright/test';
+// expect with the API response matchers (toHaveStatus, toMatchSchema, toRespondWithin, ...)
+export { expect } from '../helpers/api.matchers';
 export { ENV };
 
 export const TEST_DATA = {
@@ -68,5 +202,5 @@ export const TEST_DATA = {
 } as const;
 
 export const TIMEOUTS = { SHORT: 2000, DEFAULT: 5000, LONG: 10000, PAGE_LOAD: 30000 } as const;
-export const generateTestId = (): string => 	est_${Date.now()}_${Math.random().toString(36).substr(2, 9)};
+export const generateTestId = (): string => `test_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 export const wait = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
@@ -0,0 +1,227 @@
+import { createHash } from 'crypto';
+import { APIRequestContext } from '@playwright/test';
+import { ApiRequest } from './api.helper';
+
+// Authentication configuration
+const AUTH_CONFIG = {
+  API_KEY_HEADER: 'X-API-Key',
+  REFRESH_SKEW_MS: 30000,
+  DEFAULT_EXPIRES_IN_S: 3600,
+} as const;
+
+/**
+ * Strategy that attaches credentials to outgoing requests
+ */
+export interface AuthProvider {
+  readonly name: string;
+  /** Query parameters carrying credentials; cassettes redact them and leave them out of matching */
+  readonly queryParams?: string[];
+  /**
+   * Apply credentials to the request in place
+   * @param request - Outgoing request
+   * @param context - Request context available for token calls
+   */
+  authenticate(request: ApiRequest, context: APIRequestContext): Promise<void>;
+  /**
+   * Drop cached credentials so the next request fetches fresh ones.
+   * Providers implementing this are retried once after a 401 response.
+   */
+  invalidate?(): void;
+}
+
+export interface ApiKeyOptions {
+  key: string;
+  name?: string;
+  in?: 'header' | 'query';
+}
+
+export interface OAuth2Options {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  grantType: 'client_credentials' | 'password';
+  username?: string;
+  password?: string;
+  scope?: string;
+  /** Send client credentials as a Basic header instead of in the form body */
+  clientAuth?: 'body' | 'basic';
+  /** Refresh tokens this many milliseconds before they expire */
+  refreshSkewMs?: number;
+}
+
+export interface OAuth2Token {
+  accessToken: string;
+  tokenType: string;
+  expiresAt: number;
+}
+
+// Tokens are cached per worker process and shared between provider instances
+const tokenCache = new Map<string, OAuth2Token>();
+const pendingTokens = new Map<string, Promise<OAuth2Token>>();
+
+/**
+ * Static bearer token
+ */
+export class BearerTokenProvider implements AuthProvider {
+  readonly name = 'bearer';
+  private readonly token: string;
+
+  constructor(token: string) {
+    this.token = token;
+  }
+
+  async authenticate(request: ApiRequest): Promise<void> {
+    request.headers = { ...request.headers, Authorization: `Bearer ${this.token}` };
+  }
+}
+
+/**
+ * HTTP Basic authentication
+ */
+export class BasicAuthProvider implements AuthProvider {
+  readonly name = 'basic';
+  private readonly username: string;
+  private readonly password: string;
+
+  constructor(username: string, password: string) {
+    this.username = username;
+    this.password = password;
+  }
+
+  async authenticate(request: ApiRequest): Promise<void> {
+    const credentials = Buffer.from(`${this.username}:${this.password}`).toString('base64');
+    request.headers = { ...request.headers, Authorization: `Basic ${credentials}` };
+  }
+}
+
+/**
+ * API key sent as a header or a query parameter
+ */
+export class ApiKeyProvider implements AuthProvider {
+  readonly name = 'api-key';
+  private readonly options: Required<ApiKeyOptions>;
+
+  constructor(options: ApiKeyOptions) {
+    this.options = { name: AUTH_CONFIG.API_KEY_HEADER, in: 'header', ...options };
+  }
+
+  get queryParams(): string[] {
+    return this.options.in === 'query' ? [this.options.name] : [];
+  }
+
+  async authenticate(request: ApiRequest): Promise<void> {
+    if (this.options.in === 'query') {
+      const url = new URL(request.url);
+      url.searchParams.set(this.options.name, this.options.key);
+      request.url = url.toString();
+      return;
+    }
+    request.headers = { ...request.headers, [this.options.name]: this.options.key };
+  }
+}
+
+/**
+ * OAuth2 client-credentials or password grant with per-worker token caching
+ * Tokens are refreshed before expiry and after a 401 response
+ */
+export class OAuth2Provider implements AuthProvider {
+  readonly name = 'oauth2';
+  private readonly options: OAuth2Options;
+
+  constructor(options: OAuth2Options) {
+    if (options.grantType === 'password' && (!options.username || !options.password)) {
+      throw new Error('OAuth2 password grant requires username and password');
+    }
+    this.options = options;
+  }
+
+  /**
+   * Clear every cached OAuth2 token in this worker
+   */
+  static clearCache(): void {
+    tokenCache.clear();
+    pendingTokens.clear();
+  }
+
+  async authenticate(request: ApiRequest, context: APIRequestContext): Promise<void> {
+    const token = await this.getToken(context);
+    request.headers = { ...request.headers, Authorization: `${token.tokenType} ${token.accessToken}` };
+  }
+
+  invalidate(): void {
+    tokenCache.delete(this.cacheKey);
+  }
+
+  /**
+   * Get a valid token, fetching a new one when the cached one is missing or expiring
+   * @param context - Request context used to call the token endpoint
+   */
+  async getToken(context: APIRequestContext): Promise<OAuth2Token> {
+    const skew = this.options.refreshSkewMs ?? AUTH_CONFIG.REFRESH_SKEW_MS;
+    const cached = tokenCache.get(this.cacheKey);
+    if (cached && cached.expiresAt - skew > Date.now()) {
+      return cached;
+    }
+
+    let pending = pendingTokens.get(this.cacheKey);
+    if (!pending) {
+      pending = this.fetchToken(context).finally(() => pendingTokens.delete(this.cacheKey));
+      pendingTokens.set(this.cacheKey, pending);
+    }
+
+    const token = await pending;
+    tokenCache.set(this.cacheKey, token);
+    return token;
+  }
+
+  /**
+   * Request a new token from the token endpoint
+   * @param context - Request context used to call the token endpoint
+   */
+  private async fetchToken(context: APIRequestContext): Promise<OAuth2Token> {
+    const { tokenUrl, clientId, clientSecret, grantType, username, password, scope } = this.options;
+    const form: Record<string, string> = { grant_type: grantType };
+    const headers: Record<string, string> = {};
+
+    if (this.options.clientAuth === 'basic') {
+      headers.Authorization = `Basic ${Buffer.from(`${clientId}:${clientSecret || ''}`).toString('base64')}`;
+    } else {
+      form.client_id = clientId;
+      if (clientSecret) form.client_secret = clientSecret;
+    }
+    if (grantType === 'password') {
+      form.username = username!;
+      form.password = password!;
+    }
+    if (scope) form.scope = scope;
+
+    const response = await context.post(tokenUrl, { form, headers });
+    if (!response.ok()) {
+      throw new Error(`OAuth2 token request to ${tokenUrl} failed with status ${response.status()}: ${await response.text()}`);
+    }
+
+    const body = await response.json();
+    if (!body.access_token) {
+      throw new Error(`OAuth2 token response from ${tokenUrl} has no access_token`);
+    }
+
+    const expiresIn = body.expires_in !== undefined ? Number(body.expires_in) : AUTH_CONFIG.DEFAULT_EXPIRES_IN_S;
+    return {
+      accessToken: body.access_token,
+      tokenType: body.token_type ? capitalize(body.token_type) : 'Bearer',
+      expiresAt: Date.now() + expiresIn * 1000,
+    };
+  }
+
+  /**
+   * Key identifying the credentials this provider requests tokens for
+   * Secrets are hashed into the key so providers with different credentials never share a token.
+   */
+  private get cacheKey(): string {
+    const { tokenUrl, clientId, clientSecret, grantType, username, password, scope } = this.options;
+    const secrets = createHash('sha256').update(`${clientSecret || ''}\0${password || ''}`).digest('hex');
+    return [tokenUrl, clientId, grantType, username || '', scope || '', secrets].join('|');
+  }
+}
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1).toLowerCase();
@@ -0,0 +1,196 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+
+// Body configuration
+const BODY_CONFIG = {
+  FORM_CONTENT_TYPE: 'application/x-www-form-urlencoded',
+  TEXT_CONTENT_TYPE: 'text/plain; charset=utf-8',
+  BINARY_CONTENT_TYPE: 'application/octet-stream',
+  MIME_TYPES: {
+    '.json': 'application/json',
+    '.txt': 'text/plain',
+    '.csv': 'text/csv',
+    '.xml': 'application/xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.pdf': 'application/pdf',
+  } as Record<string, string>,
+} as const;
+
+// Type definitions for non-JSON request bodies
+export type BodyKind = 'multipart' | 'form' | 'text' | 'binary';
+
+export interface FilePart {
+  name: string;
+  mimeType: string;
+  buffer: Buffer;
+}
+
+export type FormValue = string | number | boolean;
+export type MultipartValue = FormValue | FilePart;
+
+/**
+ * Request body that is not plain JSON
+ * Pass an instance as the `data` argument of ApiHelper.post/put/patch; the
+ * Content-Type header is derived from the kind (multipart boundaries are added by Playwright).
+ */
+export class RequestBody {
+  readonly kind: BodyKind;
+  /** Content-Type sent with the body; undefined for multipart, whose boundary is generated on send */
+  readonly contentType?: string;
+  readonly payload: Record<string, MultipartValue> | Record<string, FormValue> | string | Buffer;
+
+  private constructor(kind: BodyKind, payload: RequestBody['payload'], contentType?: string) {
+    this.kind = kind;
+    this.payload = payload;
+    this.contentType = contentType;
+  }
+
+  /**
+   * multipart/form-data body; use RequestBody.file() for file parts
+   * @param fields - Field values and file parts
+   */
+  static multipart(fields: Record<string, MultipartValue>): RequestBody {
+    return new RequestBody('multipart', fields);
+  }
+
+  /**
+   * application/x-www-form-urlencoded body, as sent by HTML forms
+   * @param fields - Form fields
+   */
+  static form(fields: Record<string, FormValue>): RequestBody {
+    return new RequestBody('form', fields, BODY_CONFIG.FORM_CONTENT_TYPE);
+  }
+
+  /**
+   * Raw text body
+   * @param text - Body text
+   * @param contentType - Content-Type, plain UTF-8 text by default
+   */
+  static text(text: string, contentType: string = BODY_CONFIG.TEXT_CONTENT_TYPE): RequestBody {
+    return new RequestBody('text', text, contentType);
+  }
+
+  /**
+   * Raw binary body
+   * @param data - Bytes to send
+   * @param contentType - Content-Type, application/octet-stream by default
+   */
+  static binary(data: Buffer, contentType: string = BODY_CONFIG.BINARY_CONTENT_TYPE): RequestBody {
+    return new RequestBody('binary', data, contentType);
+  }
+
+  /**
+   * Raw binary body read from a stream, e.g. fs.createReadStream()
+   * The stream is consumed up front, so the body can still be retried, logged and recorded.
+   * @param stream - Stream of bytes to send
+   * @param contentType - Content-Type, application/octet-stream by default
+   */
+  static async binaryStream(stream: Readable, contentType: string = BODY_CONFIG.BINARY_CONTENT_TYPE): Promise<RequestBody> {
+    return RequestBody.binary(await readStream(stream), contentType);
+  }
+
+  /**
+   * File part read from disk, with the MIME type guessed from the extension
+   * @param filePath - File to attach
+   * @param mimeType - Overrides the guessed MIME type
+   */
+  static file(filePath: string, mimeType?: string): FilePart {
+    return RequestBody.buffer(path.basename(filePath), fs.readFileSync(filePath), mimeType);
+  }
+
+  /**
+   * File part built from an in-memory buffer
+   * @param name - File name reported to the server
+   * @param buffer - File content
+   * @param mimeType - Overrides the MIME type guessed from the name
+   */
+  static buffer(name: string, buffer: Buffer, mimeType?: string): FilePart {
+    const guessed = BODY_CONFIG.MIME_TYPES[path.extname(name).toLowerCase()] || BODY_CONFIG.BINARY_CONTENT_TYPE;
+    return { name, mimeType: mimeType || guessed, buffer };
+  }
+
+  /**
+   * File part read from a stream
+   * @param stream - File content; an fs.ReadStream also provides the file name
+   * @param name - File name reported to the server, required for other streams
+   * @param mimeType - Overrides the MIME type guessed from the name
+   */
+  static async fileStream(stream: Readable, name?: string, mimeType?: string): Promise<FilePart> {
+    const fileName = name ?? (stream instanceof fs.ReadStream ? path.basename(String(stream.path)) : undefined);
+    if (!fileName) {
+      throw new Error('A file part read from a stream needs a name unless the stream comes from fs.createReadStream()');
+    }
+    return RequestBody.buffer(fileName, await readStream(stream), mimeType);
+  }
+
+  /**
+   * Size of the payload in bytes, excluding multipart boundaries and part headers
+   */
+  get byteLength(): number {
+    switch (this.kind) {
+      case 'multipart':
+        return Object.values(this.payload as Record<string, MultipartValue>).reduce<number>((total, value) =>
+          total + (isFilePart(value) ? value.buffer.length : Buffer.byteLength(String(value))), 0);
+      case 'form':
+        return Buffer.byteLength(new URLSearchParams(
+          Object.entries(this.payload as Record<string, FormValue>).map(([key, value]) => [key, String(value)])
+        ).toString());
+      case 'text':
+        return Buffer.byteLength(this.payload as string);
+      case 'binary':
+        return (this.payload as Buffer).length;
+    }
+  }
+
+  /**
+   * Stable, printable form of the body
+   * Used for logs, signatures and cassette matching; file and binary content is reduced to size and hash.
+   */
+  toJSON(): unknown {
+    switch (this.kind) {
+      case 'multipart':
+        return {
+          multipart: Object.fromEntries(
+            Object.entries(this.payload as Record<string, MultipartValue>).map(([key, value]) =>
+              [key, isFilePart(value) ? { name: value.name, mimeType: value.mimeType, ...digest(value.buffer) } : value]
+            )
+          ),
+        };
+      case 'form':
+        return { form: this.payload };
+      case 'text':
+        return this.payload;
+      case 'binary':
+        return { binary: digest(this.payload as Buffer) };
+    }
+  }
+}
+
+/**
+ * Plain representation of a request body, JSON bodies unchanged
+ * @param data - Body passed to ApiHelper
+ */
+export function describeBody(data: unknown): unknown {
+  return data instanceof RequestBody ? data.toJSON() : data;
+}
+
+/**
+ * Collect a stream into a single buffer
+ */
+async function readStream(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+const isFilePart = (value: MultipartValue): value is FilePart =>
+  typeof value === 'object' && value !== null && Buffer.isBuffer((value as FilePart).buffer);
+
+const digest = (buffer: Buffer) => ({ size: buffer.length, sha256: createHash('sha256').update(buffer).digest('hex') });
@@ -0,0 +1,240 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TestInfo } from '@playwright/test';
+import { ApiRequest, ApiResponse } from './api.helper';
+import { describeBody } from './api.body';
+import { DEFAULT_REDACTED_HEADERS, redactFields, redactHeaders, redactQuery } from './api.interceptors';
+
+// Cassette configuration
+const CASSETTE_CONFIG = {
+  DEFAULT_DIR: path.join(__dirname, '..', 'cassettes'),
+  /** Path segment used when Playwright runs without named projects */
+  DEFAULT_PROJECT: 'default',
+  VERSION: 1,
+} as const;
+
+// Type definitions for recorded traffic
+/**
+ * - record: send every request and overwrite the cassette with the new traffic
+ * - replay: serve recorded responses only; unmatched requests fail without touching the network
+ * - new_episodes: replay recorded interactions and record the ones that are missing
+ */
+export type CassetteMode = 'record' | 'replay' | 'new_episodes';
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+export interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: any;
+}
+
+export interface CassetteInteraction {
+  request: RecordedRequest;
+  response: RecordedResponse;
+  recordedAt: string;
+}
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  /** Directory cassettes are written to by Cassette.forTest() */
+  dir?: string;
+  /** Header names masked in the cassette, request and response alike */
+  redactHeaders?: string[];
+  /** Body field names masked at any depth; also applied before matching request bodies */
+  redactFields?: string[];
+  /**
+   * Query parameter names masked in recorded URLs and ignored when matching; the
+   * ApiHelper's auth provider adds its own, e.g. ApiKeyProvider({ in: 'query' })
+   */
+  redactQuery?: string[];
+  /** Last chance to scrub or drop an interaction; return false to skip recording it */
+  beforeRecord?: (interaction: CassetteInteraction) => CassetteInteraction | false | void;
+}
+
+interface CassetteFile {
+  version: number;
+  title?: string;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Request/response pairs persisted to a JSON file for hermetic API tests
+ * Requests match on method, URL path with sorted query string and normalized body;
+ * the origin is ignored so traffic recorded against one base URL replays against any other.
+ * Identical requests replay in recording order, repeating the last one once exhausted.
+ */
+export class Cassette {
+  readonly file: string;
+  readonly mode: CassetteMode;
+  readonly title?: string;
+  private readonly options: CassetteOptions;
+  private readonly interactions: CassetteInteraction[];
+  private readonly played = new Set<CassetteInteraction>();
+  private dirty = false;
+
+  constructor(file: string, options: CassetteOptions, title?: string) {
+    this.file = file;
+    this.mode = options.mode;
+    this.title = title;
+    this.options = options;
+    this.interactions = options.mode !== 'record' && fs.existsSync(file)
+      ? (JSON.parse(fs.readFileSync(file, 'utf-8')) as CassetteFile).interactions
+      : [];
+  }
+
+  /**
+   * Open the cassette belonging to the running test
+   * The file lives at `<dir>/<project>/<spec path>/<describe and test titles>.json`, so
+   * projects running the same test in parallel never write to the same file.
+   * @param testInfo - Info of the running test
+   * @param options - Mode, target directory and redaction rules
+   */
+  static forTest(testInfo: TestInfo, options: CassetteOptions): Cassette {
+    const spec = path.relative(testInfo.project.testDir, testInfo.file).replace(/\.[jt]s$/, '');
+    const title = testInfo.titlePath.slice(1).join(' > ');
+    const project = testInfo.project.name ? slugify(testInfo.project.name) : CASSETTE_CONFIG.DEFAULT_PROJECT;
+    const file = path.join(options.dir || CASSETTE_CONFIG.DEFAULT_DIR, project, spec, `${slugify(title)}.json`);
+    return new Cassette(file, options, title);
+  }
+
+  /**
+   * Whether requests are served from the cassette only, never from the network
+   */
+  get isReplayOnly(): boolean {
+    return this.mode === 'replay';
+  }
+
+  /**
+   * Recorded interactions, in recording order
+   */
+  get entries(): readonly CassetteInteraction[] {
+    return this.interactions;
+  }
+
+  /**
+   * Find the recorded response for a request
+   * @param request - Request about to be sent
+   * @param extraQuery - Extra query parameters to ignore, e.g. the auth provider's
+   * @returns Response rebuilt from the cassette, or undefined when nothing matches
+   */
+  play(request: ApiRequest, extraQuery: string[] = []): ApiResponse | undefined {
+    if (this.mode === 'record') return undefined;
+
+    const ignored = this.redactedQuery(extraQuery);
+    const key = this.matchKey(request.method, request.url, request.data, ignored);
+    const candidates = this.interactions.filter(({ request: recorded }) =>
+      this.matchKey(recorded.method, recorded.url, recorded.body, ignored) === key
+    );
+    const interaction = candidates.find(candidate => !this.played.has(candidate)) || candidates[candidates.length - 1];
+    if (!interaction) return undefined;
+
+    this.played.add(interaction);
+    return {
+      response: null,
+      data: reviveBody(interaction.response.body),
+      status: interaction.response.status,
+      headers: { ...interaction.response.headers },
+      attempts: [],
+    };
+  }
+
+  /**
+   * Append a live exchange to the cassette, redacted
+   * @param request - Request that was sent
+   * @param response - Response that was received
+   * @param extraQuery - Extra query parameters to mask, e.g. the auth provider's
+   */
+  record(request: ApiRequest, response: ApiResponse, extraQuery: string[] = []): void {
+    if (this.isReplayOnly) return;
+
+    const headers = (this.options.redactHeaders || [...DEFAULT_REDACTED_HEADERS]).map(h => h.toLowerCase());
+    const fields = this.options.redactFields || [];
+    let interaction: CassetteInteraction | false | void = {
+      request: {
+        method: request.method,
+        url: redactQuery(request.url, this.redactedQuery(extraQuery)),
+        headers: redactHeaders(request.headers, headers),
+        body: redactFields(describeBody(request.data), fields),
+      },
+      response: {
+        status: response.status,
+        headers: redactHeaders(response.headers || {}, headers),
+        body: Buffer.isBuffer(response.data) ? { $binary: response.data.toString('base64') } : redactFields(response.data, fields),
+      },
+      recordedAt: new Date().toISOString(),
+    };
+
+    interaction = this.options.beforeRecord?.(interaction) ?? interaction;
+    if (interaction === false) return;
+
+    this.interactions.push(interaction);
+    this.played.add(interaction);
+    this.dirty = true;
+  }
+
+  /**
+   * Write the cassette to disk when it gained new interactions
+   * A cassette in record mode is rewritten so stale traffic is dropped, but only when
+   * the test made API calls; tests without any leave no empty file behind.
+   */
+  save(): void {
+    if (this.isReplayOnly || this.interactions.length === 0 || (!this.dirty && this.mode !== 'record')) return;
+
+    const content: CassetteFile = { version: CASSETTE_CONFIG.VERSION, title: this.title, interactions: this.interactions };
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, `${JSON.stringify(content, null, 2)}\n`);
+    this.dirty = false;
+  }
+
+  /**
+   * Query parameters masked in this cassette: the configured ones plus the caller's
+   */
+  private redactedQuery(extra: string[]): string[] {
+    return [...(this.options.redactQuery || []), ...extra];
+  }
+
+  /**
+   * Deterministic key a request is matched on
+   * @param method - HTTP method
+   * @param rawUrl - Absolute request URL
+   * @param body - Request body, redacted before comparison
+   * @param ignoredQuery - Query parameters left out of the key
+   */
+  private matchKey(method: string, rawUrl: string, body: any, ignoredQuery: string[]): string {
+    const url = new URL(rawUrl);
+    ignoredQuery.forEach(name => url.searchParams.delete(name));
+    url.searchParams.sort();
+    const redacted = redactFields(describeBody(body), this.options.redactFields || []);
+    return `${method.toUpperCase()} ${url.pathname}${url.search} ${normalizeBody(redacted)}`;
+  }
+}
+
+/**
+ * Serialize a body with object keys sorted so key order never affects matching
+ * @param body - Request body
+ */
+export function normalizeBody(body: any): string {
+  if (body === undefined || body === null || body === '') return '';
+  if (typeof body === 'string') return body;
+  return JSON.stringify(body, (_key, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.keys(value).sort().map(key => [key, value[key]]))
+      : value
+  );
+}
+
+/**
+ * Turn a recorded binary body back into a Buffer
+ */
+function reviveBody(body: any): any {
+  return body && typeof body === 'object' && typeof body.$binary === 'string' ? Buffer.from(body.$binary, 'base64') : body;
+}
+
+const slugify = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'untitled';
@@ -0,0 +1,303 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { expect } from '@playwright/test';
+import Ajv2020, { ErrorObject, ValidateFunction } from 'ajv/dist/2020';
+import { parse as parseYaml } from 'yaml';
+import { ApiInterceptor, ApiRequest, ApiResponse } from './api.helper';
+import { RequestBody } from './api.body';
+import { toViolation } from './schema.validator';
+
+// Contract configuration
+const CONTRACT_CONFIG = {
+  DOCUMENT_ID: 'openapi://contract',
+  JSON_MEDIA_TYPE: 'application/json',
+} as const;
+
+// Type definitions for contract checks
+export type ContractLocation =
+  | 'operation'
+  | 'request.path'
+  | 'request.query'
+  | 'request.body'
+  | 'response.status'
+  | 'response.body';
+
+export interface ContractViolation {
+  location: ContractLocation;
+  /** JSON pointer inside the checked value ('' for the value itself) */
+  pointer: string;
+  message: string;
+}
+
+export interface ContractCheck {
+  operation?: string;
+  violations: ContractViolation[];
+}
+
+/**
+ * What the contract interceptor checks for a request.
+ * Set per request with `{ meta: { contract: 'response' } }`, e.g. for negative tests
+ * that deliberately send invalid input.
+ */
+export type ContractMode = 'full' | 'response' | 'off';
+
+interface ParameterObject {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  schema?: object;
+  $ref?: string;
+}
+
+interface ResolvedOperation {
+  template: string;
+  method: string;
+  pointer: string[];
+  operation: any;
+  pathParams: Record<string, string>;
+}
+
+/**
+ * OpenAPI 3.x contract loaded from disk
+ * Checks requests and responses against the declared paths, parameters, bodies and statuses
+ */
+export class OpenApiContract {
+  readonly document: any;
+  private readonly ajv: Ajv2020;
+  private readonly coercingAjv: Ajv2020;
+  private readonly validators = new Map<string, ValidateFunction>();
+  private readonly templates: { template: string; pattern: RegExp; keys: string[] }[];
+
+  constructor(document: any) {
+    if (!document || typeof document.openapi !== 'string' || !document.openapi.startsWith('3.')) {
+      throw new Error('Only OpenAPI 3.x documents are supported');
+    }
+    this.document = document;
+
+    // Query and path values arrive as strings, so parameters are validated with type coercion
+    this.ajv = new Ajv2020({ allErrors: true, strict: false, validateSchema: false });
+    this.coercingAjv = new Ajv2020({ allErrors: true, strict: false, validateSchema: false, coerceTypes: true });
+    this.ajv.addSchema(document, CONTRACT_CONFIG.DOCUMENT_ID);
+    this.coercingAjv.addSchema(document, CONTRACT_CONFIG.DOCUMENT_ID);
+
+    this.templates = Object.keys(document.paths || {})
+      .map(template => {
+        const keys: string[] = [];
+        const source = template
+          .replace(/[.+?^$()|[\]\\]/g, '\\$&')
+          .replace(/\{(\w+)\}/g, (_, key: string) => {
+            keys.push(key);
+            return '([^/]+)';
+          });
+        return { template, pattern: new RegExp(`^${source}/?$`), keys };
+      })
+      // Literal paths win over templated ones
+      .sort((a, b) => a.keys.length - b.keys.length);
+  }
+
+  /**
+   * Load an OpenAPI document from a JSON or YAML file
+   * @param filePath - Path to the document, relative to the working directory
+   */
+  static load(filePath: string): OpenApiContract {
+    const absolute = path.resolve(filePath);
+    const content = fs.readFileSync(absolute, 'utf-8');
+    const document = /\.ya?ml$/i.test(absolute) ? parseYaml(content) : JSON.parse(content);
+    return new OpenApiContract(document);
+  }
+
+  /**
+   * Check a request/response exchange against the contract
+   * @param request - Request as sent by ApiHelper
+   * @param response - Response returned by ApiHelper
+   * @param mode - Which parts of the exchange to check
+   */
+  check(request: ApiRequest, response: ApiResponse, mode: ContractMode = 'full'): ContractCheck {
+    if (mode === 'off') return { violations: [] };
+
+    const url = new URL(request.url);
+    const pathname = request.endpoint.split('?')[0];
+    const resolved = this.resolveOperation(request.method, pathname);
+
+    if (!resolved) {
+      return {
+        violations: [{
+          location: 'operation',
+          pointer: '',
+          message: `${request.method} ${pathname} is not declared in the contract`,
+        }],
+      };
+    }
+
+    const operation = `${request.method} ${resolved.template}`;
+    const violations = mode === 'full'
+      ? [...this.checkParameters(resolved, url.searchParams), ...this.checkRequestBody(resolved, request.data)]
+      : [];
+
+    return { operation, violations: [...violations, ...this.checkResponse(resolved, response)] };
+  }
+
+  /**
+   * Assert an exchange matches the contract, failing with a readable diff of all violations
+   * @param request - Request as sent by ApiHelper
+   * @param response - Response returned by ApiHelper
+   * @param mode - Which parts of the exchange to check
+   */
+  assertExchange(request: ApiRequest, response: ApiResponse, mode: ContractMode = 'full'): void {
+    const { operation, violations } = this.check(request, response, mode);
+    const lines = violations.map(v => `  [${v.location}] ${v.pointer || '/'} ${v.message}`).join('\n');
+    expect(
+      violations,
+      `${operation || request.method + ' ' + request.endpoint} -> ${response.status} violates the API contract:\n${lines}`
+    ).toEqual([]);
+  }
+
+  /**
+   * Interceptor checking every ApiHelper exchange against this contract
+   * Honours `request.meta.contract` (see ContractMode) for per-request overrides
+   */
+  interceptor(): ApiInterceptor {
+    return {
+      name: 'openapi-contract',
+      afterResponse: (response, request) => {
+        this.assertExchange(request, response, (request.meta.contract as ContractMode) || 'full');
+      },
+    };
+  }
+
+  /**
+   * Find the operation declared for a method and concrete path
+   */
+  private resolveOperation(method: string, pathname: string): ResolvedOperation | undefined {
+    const verb = method.toLowerCase();
+
+    for (const { template, pattern, keys } of this.templates) {
+      const match = pattern.exec(pathname);
+      const operation = match && this.document.paths[template][verb];
+      if (!match || !operation) continue;
+
+      const pathParams: Record<string, string> = {};
+      keys.forEach((key, index) => {
+        pathParams[key] = decodeURIComponent(match[index + 1]);
+      });
+      return { template, method: verb, pointer: ['paths', template, verb], operation, pathParams };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Validate path and query parameters
+   */
+  private checkParameters(resolved: ResolvedOperation, query: URLSearchParams): ContractViolation[] {
+    const violations: ContractViolation[] = [];
+    const pathItem = this.document.paths[resolved.template];
+    const declared = [
+      ...(pathItem.parameters || []).map((p: ParameterObject, i: number) => ({ p, pointer: ['paths', resolved.template, 'parameters', String(i)] })),
+      ...(resolved.operation.parameters || []).map((p: ParameterObject, i: number) => ({ p, pointer: [...resolved.pointer, 'parameters', String(i)] })),
+    ];
+
+    for (const { p, pointer } of declared) {
+      const parameter: ParameterObject = p.$ref ? this.deref(p.$ref) : p;
+      const location: ContractLocation | undefined =
+        parameter.in === 'path' ? 'request.path' : parameter.in === 'query' ? 'request.query' : undefined;
+      if (!location) continue;
+
+      const value = parameter.in === 'path' ? resolved.pathParams[parameter.name] : query.get(parameter.name) ?? undefined;
+      if (value === undefined) {
+        if (parameter.required) {
+          violations.push({ location, pointer: `/${parameter.name}`, message: 'is required' });
+        }
+        continue;
+      }
+      if (!parameter.schema) continue;
+
+      const schemaPointer = p.$ref ? [...refToPointer(p.$ref), 'schema'] : [...pointer, 'schema'];
+      const validate = this.validatorFor(schemaPointer, true);
+      if (!validate(value)) {
+        violations.push(...toViolations(location, validate.errors, `/${parameter.name}`));
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Validate the JSON request body
+   */
+  private checkRequestBody(resolved: ResolvedOperation, data: unknown): ContractViolation[] {
+    const requestBody = resolved.operation.requestBody;
+    if (!requestBody) return [];
+
+    if (data === undefined) {
+      return requestBody.required
+        ? [{ location: 'request.body', pointer: '', message: 'is required' }]
+        : [];
+    }
+
+    // Only JSON bodies are schema-checked; multipart, form, text and binary bodies pass through
+    if (data instanceof RequestBody || !requestBody.content?.[CONTRACT_CONFIG.JSON_MEDIA_TYPE]?.schema) return [];
+    const validate = this.validatorFor([...resolved.pointer, 'requestBody', 'content', CONTRACT_CONFIG.JSON_MEDIA_TYPE, 'schema']);
+    return validate(data) ? [] : toViolations('request.body', validate.errors);
+  }
+
+  /**
+   * Validate the response status and JSON body
+   */
+  private checkResponse(resolved: ResolvedOperation, response: ApiResponse): ContractViolation[] {
+    const responses = resolved.operation.responses || {};
+    const status = String(response.status);
+    const key = [status, `${status[0]}XX`, 'default'].find(candidate => candidate in responses);
+
+    if (!key) {
+      return [{
+        location: 'response.status',
+        pointer: '',
+        message: `status ${status} is not declared (declared: ${Object.keys(responses).join(', ')})`,
+      }];
+    }
+
+    const declared = responses[key].$ref ? this.deref(responses[key].$ref) : responses[key];
+    const pointer = responses[key].$ref
+      ? refToPointer(responses[key].$ref)
+      : [...resolved.pointer, 'responses', key];
+
+    if (!declared?.content?.[CONTRACT_CONFIG.JSON_MEDIA_TYPE]?.schema || response.data === undefined) return [];
+    const validate = this.validatorFor([...pointer, 'content', CONTRACT_CONFIG.JSON_MEDIA_TYPE, 'schema']);
+    return validate(response.data) ? [] : toViolations('response.body', validate.errors);
+  }
+
+  /**
+   * Compile (once) a validator for a schema located in the document
+   */
+  private validatorFor(pointer: string[], coerce: boolean = false): ValidateFunction {
+    const ref = `${CONTRACT_CONFIG.DOCUMENT_ID}#/${pointer.map(segment => encodeURIComponent(escapePointer(segment))).join('/')}`;
+    const cacheKey = `${coerce}:${ref}`;
+
+    let validate = this.validators.get(cacheKey);
+    if (!validate) {
+      validate = (coerce ? this.coercingAjv : this.ajv).compile({ $ref: ref });
+      this.validators.set(cacheKey, validate);
+    }
+    return validate;
+  }
+
+  /**
+   * Resolve a local $ref such as '#/components/parameters/PostId'
+   */
+  private deref(ref: string): any {
+    return refToPointer(ref).reduce((node, segment) => node?.[segment], this.document);
+  }
+}
+
+const escapePointer = (segment: string): string => segment.replace(/~/g, '~0').replace(/\//g, '~1');
+
+const refToPointer = (ref: string): string[] =>
+  ref.replace(/^#\//, '').split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+/**
+ * Convert Ajv errors to contract violations at a location, formatted like schema violations
+ */
+function toViolations(location: ContractLocation, errors: ErrorObject[] | null | undefined, prefix: string = ''): ContractViolation[] {
+  return (errors || []).map(toViolation).map(({ pointer, message }) => ({ location, pointer: `${prefix}${pointer}`, message }));
+}
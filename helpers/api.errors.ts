@@ -0,0 +1,124 @@
+import { ApiRequest, ApiResponse } from './api.helper';
+import { ApiAttempt } from './api.retry';
+
+// Error configuration
+const ERROR_CONFIG = {
+  BODY_EXCERPT_LENGTH: 200,
+  TIMEOUT_PATTERN: /Timeout \d+ms exceeded|timed out|ETIMEDOUT/i,
+  ERROR_CODE_PATTERN: /\b(E[A-Z_]{3,})\b/,
+} as const;
+
+// Type definitions for API errors
+export interface ApiErrorDetails {
+  /** Request as sent, after auth and beforeRequest hooks */
+  request: ApiRequest;
+  attempts?: ApiAttempt[];
+  cause?: unknown;
+}
+
+/**
+ * Base class for every failure raised by ApiHelper
+ * Catch it to handle any API failure, or one of the subclasses to handle a single kind.
+ */
+export class ApiError extends Error {
+  readonly request: ApiRequest;
+  readonly attempts: ApiAttempt[];
+
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, { cause: details.cause });
+    this.name = new.target.name;
+    this.request = details.request;
+    this.attempts = details.attempts ?? [];
+  }
+}
+
+/**
+ * The request did not complete within its timeout on the last attempt
+ */
+export class ApiTimeoutError extends ApiError {
+  /** Timeout applied to each attempt in milliseconds */
+  readonly timeoutMs: number;
+
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details);
+    this.timeoutMs = details.request.timeout;
+  }
+}
+
+/**
+ * The request failed before a response was received (refused, reset, DNS, ...)
+ */
+export class ApiNetworkError extends ApiError {
+  /** System error code such as ECONNREFUSED, when one could be identified */
+  readonly code?: string;
+
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details);
+    this.code = String(details.cause).match(ERROR_CONFIG.ERROR_CODE_PATTERN)?.[1];
+  }
+}
+
+/**
+ * The server answered with a non-2xx status while throwOnHttpError was enabled
+ */
+export class ApiHttpError extends ApiError {
+  readonly status: number;
+  readonly body: unknown;
+  readonly headers: Record<string, string>;
+  /** Full response, after the afterResponse hooks */
+  readonly response: ApiResponse;
+
+  constructor(response: ApiResponse, details: ApiErrorDetails) {
+    const { method, url } = details.request;
+    super(`${method} ${url} responded with status ${response.status}: ${excerpt(response.data)}`, details);
+    this.status = response.status;
+    this.body = response.data;
+    this.headers = response.headers || {};
+    this.response = response;
+  }
+}
+
+/**
+ * The response declared a structured media type (JSON, NDJSON, XML) but its body could not be parsed
+ */
+export class ApiParseError extends ApiError {
+  readonly status: number;
+  readonly contentType: string;
+  /** Raw body text that failed to parse */
+  readonly body: string;
+
+  constructor(status: number, contentType: string, body: string, details: ApiErrorDetails) {
+    const { method, url } = details.request;
+    const reason = details.cause instanceof Error ? details.cause.message : String(details.cause);
+    super(`${method} ${url} returned a body that is not valid ${contentType} (status ${status}): ${reason}`, details);
+    this.status = status;
+    this.contentType = contentType;
+    this.body = body;
+  }
+}
+
+/**
+ * Classify an error thrown by the request context after the last attempt
+ * @param error - Error raised by APIRequestContext.fetch
+ * @param request - Request that failed
+ * @param attempts - Attempts made, including the failed one
+ * @returns ApiTimeoutError for timeouts, ApiNetworkError for anything else
+ */
+export function toTransportError(error: unknown, request: ApiRequest, attempts: ApiAttempt[]): ApiTimeoutError | ApiNetworkError {
+  const message = `${request.method} request to ${request.url} failed after ${attempts.length} attempt(s): ${error}`;
+  const details = { request, attempts, cause: error };
+
+  return ERROR_CONFIG.TIMEOUT_PATTERN.test(String(error))
+    ? new ApiTimeoutError(message, details)
+    : new ApiNetworkError(message, details);
+}
+
+/**
+ * Short printable form of a response body for error messages
+ */
+function excerpt(body: unknown): string {
+  const text = typeof body === 'string' ? body : Buffer.isBuffer(body) ? `<${body.length} bytes>` : JSON.stringify(body);
+  return text === undefined || text.length <= ERROR_CONFIG.BODY_EXCERPT_LENGTH
+    ? String(text)
+    : `${text.slice(0, ERROR_CONFIG.BODY_EXCERPT_LENGTH)}...`;
+}
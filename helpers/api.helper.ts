@@ -1,10 +1,77 @@
-import { APIRequestContext } from '@playwright/test';
+import { APIRequestContext, APIResponse } from '@playwright/test';
+import { XMLParser } from 'fast-xml-parser';
+import {
+  ApiAttempt,
+  DEFAULT_RETRY_POLICY,
+  RetryPolicy,
+  canRetryMethod,
+  computeRetryDelay,
+  isRetryableError,
+  isRetryableStatus,
+  resolveRetryPolicy,
+} from './api.retry';
+import { AuthProvider } from './api.auth';
+import { RequestBody } from './api.body';
+import { Cassette } from './api.cassette';
+import { ApiHttpError, ApiParseError, toTransportError } from './api.errors';
+import { expect } from './api.matchers';
+import { PaginateOptions, PaginationStrategy, Paginator } from './api.pagination';
 
 // Type definitions for API operations
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
 export interface RequestOptions {
   headers?: Record<string, string>;
   params?: Record<string, string>;
   timeout?: number;
+  retry?: Partial<RetryPolicy> | false;
+  auth?: AuthProvider | false;
+  /** Per-request values exposed to interceptors as request.meta */
+  meta?: Record<string, unknown>;
+  /** Throw ApiHttpError on non-2xx statuses; overrides the helper default */
+  throwOnHttpError?: boolean;
+}
+
+export interface ApiHelperOptions {
+  timeout?: number;
+  retry?: Partial<RetryPolicy>;
+  interceptors?: ApiInterceptor[];
+  auth?: AuthProvider;
+  /** Record traffic to, or replay it from, a cassette file */
+  cassette?: Cassette;
+  /** Throw ApiHttpError on non-2xx statuses instead of returning the response */
+  throwOnHttpError?: boolean;
+}
+
+/**
+ * Fully resolved request as seen by interceptors
+ */
+export interface ApiRequest {
+  method: HttpMethod;
+  endpoint: string;
+  url: string;
+  headers: Record<string, string>;
+  data?: any;
+  timeout: number;
+  /** Free-form storage for interceptors to share state across hooks */
+  meta: Record<string, unknown>;
+}
+
+/**
+ * Timing and size of the attempt that produced a response
+ */
+export interface ApiTiming {
+  /** From sending the request to the parsed body, in milliseconds */
+  totalMs: number;
+  /**
+   * Until the response arrived, in milliseconds; Playwright hands the response over
+   * with its body already buffered, so this is an upper bound of the time to first byte
+   */
+  ttfbMs: number;
+  /** Request body size in bytes */
+  requestBytes: number;
+  /** Response body size in bytes */
+  responseBytes: number;
 }
 
 export interface ApiResponse<T = any> {
@@ -12,6 +79,26 @@ export interface ApiResponse<T = any> {
   data: T;
   status: number;
   headers?: Record<string, string>;
+  attempts?: ApiAttempt[];
+  /** Request that produced the response, as sent */
+  request?: ApiRequest;
+  /** Timing of the final attempt; absent for replayed or interceptor-provided responses */
+  timing?: ApiTiming;
+}
+
+/**
+ * Middleware hooks around every request sent through ApiHelper.
+ * beforeRequest hooks run in registration order; afterResponse and onError
+ * hooks run in reverse order so the first interceptor wraps all others.
+ */
+export interface ApiInterceptor {
+  name?: string;
+  /** Inspect or replace the outgoing request */
+  beforeRequest?: (request: ApiRequest) => ApiRequest | void | Promise<ApiRequest | void>;
+  /** Inspect or replace the response before it reaches the test */
+  afterResponse?: (response: ApiResponse, request: ApiRequest) => ApiResponse | void | Promise<ApiResponse | void>;
+  /** Observe a failed request; return a response to recover from the error */
+  onError?: (error: Error, request: ApiRequest) => ApiResponse | void | Promise<ApiResponse | void>;
 }
 
 /**
@@ -22,10 +109,62 @@ export class ApiHelper {
   private readonly request: APIRequestContext;
   private readonly baseURL: string;
   private readonly defaultTimeout: number = 15000;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly interceptors: ApiInterceptor[] = [];
+  private authProvider?: AuthProvider;
+  private cassette?: Cassette;
+  private readonly throwOnHttpError: boolean;
 
-  constructor(request: APIRequestContext, baseURL: string = '') {
+  constructor(request: APIRequestContext, baseURL: string = '', options?: ApiHelperOptions) {
     this.request = request;
     this.baseURL = baseURL;
+    this.defaultTimeout = options?.timeout || this.defaultTimeout;
+    this.retryPolicy = resolveRetryPolicy(DEFAULT_RETRY_POLICY, options?.retry);
+    options?.interceptors?.forEach(interceptor => this.use(interceptor));
+    this.authProvider = options?.auth;
+    this.cassette = options?.cassette;
+    this.throwOnHttpError = options?.throwOnHttpError ?? false;
+  }
+
+  /**
+   * Attach an authentication provider used by every subsequent request
+   * @param provider - Provider to use, or undefined to send requests unauthenticated
+   * @returns The helper, for chaining
+   */
+  setAuth(provider?: AuthProvider): this {
+    this.authProvider = provider;
+    return this;
+  }
+
+  /**
+   * Record or replay every subsequent request through a cassette
+   * @param cassette - Cassette to use, or undefined to always hit the network
+   * @returns The helper, for chaining
+   */
+  setCassette(cassette?: Cassette): this {
+    this.cassette = cassette;
+    return this;
+  }
+
+  /**
+   * Register an interceptor for every subsequent request
+   * @param interceptor - Hooks to run around requests
+   * @returns The helper, for chaining
+   */
+  use(interceptor: ApiInterceptor): this {
+    this.interceptors.push(interceptor);
+    return this;
+  }
+
+  /**
+   * Remove a previously registered interceptor
+   * @param interceptor - Interceptor instance passed to use()
+   */
+  eject(interceptor: ApiInterceptor): void {
+    const index = this.interceptors.indexOf(interceptor);
+    if (index !== -1) {
+      this.interceptors.splice(index, 1);
+    }
   }
 
   /**
@@ -35,116 +174,40 @@ export class ApiHelper {
    * @returns API response with parsed data
    */
   async get<T = any>(endpoint: string, options?: RequestOptions): Promise<ApiResponse<T>> {
-    const url = this.buildUrl(endpoint, options?.params);
-    
-    try {
-      const response = await this.request.get(url, {
-        headers: options?.headers,
-        timeout: options?.timeout || this.defaultTimeout,
-      });
-      
-      return {
-        response,
-        data: await this.parseResponse(response),
-        status: response.status(),
-        headers: response.headers(),
-      };
-    } catch (error) {
-      throw new Error(`GET request to ${url} failed: ${error}`);
-    }
+    return this.send<T>('GET', endpoint, undefined, options);
   }
 
   /**
    * Generic POST request
    * @param endpoint - API endpoint path
-   * @param data - Request body data
+   * @param data - Request body data, sent as JSON unless it is a RequestBody (multipart, form, text, binary)
    * @param options - Request options
    * @returns API response with parsed data
    */
   async post<T = any>(endpoint: string, data?: any, options?: RequestOptions): Promise<ApiResponse<T>> {
-    const url = `${this.baseURL}${endpoint}`;
-    
-    try {
-      const response = await this.request.post(url, {
-        data,
-        headers: {
-          'Content-Type': 'application/json',
-          ...options?.headers,
-        },
-        timeout: options?.timeout || this.defaultTimeout,
-      });
-
-      return {
-        response,
-        data: await this.parseResponse(response),
-        status: response.status(),
-        headers: response.headers(),
-      };
-    } catch (error) {
-      throw new Error(`POST request to ${url} failed: ${error}`);
-    }
+    return this.send<T>('POST', endpoint, data, options);
   }
 
   /**
    * Generic PUT request
    * @param endpoint - API endpoint path
-   * @param data - Request body data
+   * @param data - Request body data, sent as JSON unless it is a RequestBody
    * @param options - Request options
    * @returns API response with parsed data
    */
   async put<T = any>(endpoint: string, data?: any, options?: RequestOptions): Promise<ApiResponse<T>> {
-    const url = `${this.baseURL}${endpoint}`;
-    
-    try {
-      const response = await this.request.put(url, {
-        data,
-        headers: {
-          'Content-Type': 'application/json',
-          ...options?.headers,
-        },
-        timeout: options?.timeout || this.defaultTimeout,
-      });
-
-      return {
-        response,
-        data: await this.parseResponse(response),
-        status: response.status(),
-        headers: response.headers(),
-      };
-    } catch (error) {
-      throw new Error(`PUT request to ${url} failed: ${error}`);
-    }
+    return this.send<T>('PUT', endpoint, data, options);
   }
 
   /**
    * Generic PATCH request
    * @param endpoint - API endpoint path
-   * @param data - Request body data
+   * @param data - Request body data, sent as JSON unless it is a RequestBody
    * @param options - Request options
    * @returns API response with parsed data
    */
   async patch<T = any>(endpoint: string, data?: any, options?: RequestOptions): Promise<ApiResponse<T>> {
-    const url = `${this.baseURL}${endpoint}`;
-    
-    try {
-      const response = await this.request.patch(url, {
-        data,
-        headers: {
-          'Content-Type': 'application/json',
-          ...options?.headers,
-        },
-        timeout: options?.timeout || this.defaultTimeout,
-      });
-
-      return {
-        response,
-        data: await this.parseResponse(response),
-        status: response.status(),
-        headers: response.headers(),
-      };
-    } catch (error) {
-      throw new Error(`PATCH request to ${url} failed: ${error}`);
-    }
+    return this.send<T>('PATCH', endpoint, data, options);
   }
 
   /**
@@ -154,22 +217,200 @@ export class ApiHelper {
    * @returns API response with parsed data
    */
   async delete<T = any>(endpoint: string, options?: RequestOptions): Promise<ApiResponse<T>> {
-    const url = `${this.baseURL}${endpoint}`;
-    
+    return this.send<T>('DELETE', endpoint, undefined, options);
+  }
+
+  /**
+   * Walk a paginated list endpoint
+   * Iterate the result for items (`for await (const post of ...)`) or call pages() for whole pages.
+   * @param endpoint - List endpoint path
+   * @param strategy - How the next page is located: offset/limit, body cursor or Link header
+   * @param options - Request options plus the maxPages safety limit
+   * @returns Lazy paginator; nothing is fetched until it is iterated
+   */
+  paginate<T = any>(endpoint: string, strategy: PaginationStrategy, options?: PaginateOptions): Paginator<T> {
+    return new Paginator<T>(this, endpoint, strategy, options);
+  }
+
+  /**
+   * Send a request through the interceptor pipeline
+   * Transport failures surface as ApiTimeoutError or ApiNetworkError, malformed bodies as
+   * ApiParseError, and non-2xx statuses as ApiHttpError when throwOnHttpError is enabled.
+   * @param method - HTTP method
+   * @param endpoint - API endpoint path
+   * @param data - Request body data
+   * @param options - Request options
+   * @returns API response with parsed data and the list of attempts
+   */
+  private async send<T>(method: HttpMethod, endpoint: string, data: any, options?: RequestOptions): Promise<ApiResponse<T>> {
+    const hasBody = method === 'POST' || method === 'PUT' || method === 'PATCH';
+    const contentType = data instanceof RequestBody ? data.contentType : 'application/json';
+    const baseRequest: ApiRequest = {
+      method,
+      endpoint,
+      url: this.buildUrl(endpoint, options?.params),
+      headers: hasBody && contentType
+        ? { 'Content-Type': contentType, ...options?.headers }
+        : { ...options?.headers },
+      data: hasBody ? data : undefined,
+      timeout: options?.timeout || this.defaultTimeout,
+      meta: { ...options?.meta },
+    };
+    const auth = options?.auth === false ? undefined : options?.auth || this.authProvider;
+
+    let request = await this.prepare(baseRequest, auth);
+    const outerFirst = [...this.interceptors].reverse();
+    let result: ApiResponse;
+
     try {
-      const response = await this.request.delete(url, {
-        headers: options?.headers,
-        timeout: options?.timeout || this.defaultTimeout,
-      });
+      result = await this.dispatch(request, options?.retry, auth);
+
+      // Refreshable credentials may have been revoked server-side: refresh once and resend
+      if (result.status === 401 && auth?.invalidate) {
+        auth.invalidate();
+        await result.response?.dispose();
+        request = await this.prepare(baseRequest, auth);
+        result = await this.dispatch(request, options?.retry, auth);
+      }
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      let recovered: ApiResponse | void = undefined;
+
+      for (const interceptor of outerFirst) {
+        if (interceptor.onError && !recovered) {
+          recovered = await interceptor.onError(failure, request);
+        }
+      }
+      if (!recovered) throw failure;
+      result = recovered;
+    }
+
+    result.request = request;
+    for (const interceptor of outerFirst) {
+      if (interceptor.afterResponse) {
+        result = (await interceptor.afterResponse(result, request)) || result;
+      }
+    }
+
+    const throwOnHttpError = options?.throwOnHttpError ?? this.throwOnHttpError;
+    if (throwOnHttpError && (result.status < 200 || result.status > 299)) {
+      throw new ApiHttpError(result, { request, attempts: result.attempts });
+    }
+
+    return result as ApiResponse<T>;
+  }
+
+  /**
+   * Produce the request to send: apply credentials, then the beforeRequest hooks
+   * @param baseRequest - Request built from the verb method arguments
+   * @param auth - Authentication provider, if any
+   * @returns Request ready to be executed
+   */
+  private async prepare(baseRequest: ApiRequest, auth?: AuthProvider): Promise<ApiRequest> {
+    let request: ApiRequest = { ...baseRequest, headers: { ...baseRequest.headers }, meta: { ...baseRequest.meta } };
+
+    // Replayed traffic never reaches the server, so credentials (and token endpoints) are skipped
+    if (auth && !this.cassette?.isReplayOnly) {
+      await auth.authenticate(request, this.request);
+    }
+
+    for (const interceptor of this.interceptors) {
+      if (interceptor.beforeRequest) {
+        request = (await interceptor.beforeRequest(request)) || request;
+      }
+    }
+
+    return request;
+  }
+
+  /**
+   * Serve a request from the cassette when one is attached, otherwise execute and record it
+   * The outcome is exposed to afterResponse hooks as request.meta.cassette ('replayed' or 'recorded').
+   * @param request - Request produced by the beforeRequest hooks
+   * @param retry - Per-request retry overrides
+   * @param auth - Authentication provider, whose credential query parameters the cassette redacts
+   * @returns API response, live or replayed
+   */
+  private async dispatch(request: ApiRequest, retry?: Partial<RetryPolicy> | false, auth?: AuthProvider): Promise<ApiResponse> {
+    if (!this.cassette) {
+      return this.execute(request, retry);
+    }
+
+    const credentialQuery = auth?.queryParams ?? [];
+    const replayed = this.cassette.play(request, credentialQuery);
+    if (replayed) {
+      request.meta.cassette = 'replayed';
+      return replayed;
+    }
+    if (this.cassette.isReplayOnly) {
+      throw new Error(`No recorded interaction for ${request.method} ${request.url} in cassette ${this.cassette.file}`);
+    }
 
+    const result = await this.execute(request, retry);
+    this.cassette.record(request, result, credentialQuery);
+    request.meta.cassette = 'recorded';
+    return result;
+  }
+
+  /**
+   * Execute a resolved request, retrying according to the effective retry policy
+   * @param request - Request produced by the beforeRequest hooks
+   * @param retry - Per-request retry overrides
+   * @returns API response with parsed data and the list of attempts
+   */
+  private async execute(request: ApiRequest, retry?: Partial<RetryPolicy> | false): Promise<ApiResponse> {
+    const policy = resolveRetryPolicy(this.retryPolicy, retry);
+    const retryable = canRetryMethod(policy, request.method);
+    const attempts: ApiAttempt[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      const startTime = Date.now();
+      let response: APIResponse;
+
+      try {
+        response = await this.request.fetch(request.url, {
+          method: request.method,
+          ...toFetchBody(request.data),
+          headers: request.headers,
+          timeout: request.timeout,
+        });
+      } catch (error) {
+        const record: ApiAttempt = { attempt, error: String(error), durationMs: Date.now() - startTime };
+        attempts.push(record);
+
+        if (retryable && attempt < policy.maxAttempts && isRetryableError(policy, error)) {
+          record.delayMs = computeRetryDelay(policy, attempt);
+          await sleep(record.delayMs);
+          continue;
+        }
+        throw toTransportError(error, request, attempts);
+      }
+
+      const ttfbMs = Date.now() - startTime;
+      const record: ApiAttempt = { attempt, status: response.status(), durationMs: ttfbMs };
+      attempts.push(record);
+
+      if (retryable && attempt < policy.maxAttempts && isRetryableStatus(policy, response.status())) {
+        record.delayMs = computeRetryDelay(policy, attempt, response.headers()['retry-after']);
+        await response.dispose();
+        await sleep(record.delayMs);
+        continue;
+      }
+
+      const data = await this.parseResponse(response, request, attempts);
       return {
         response,
-        data: await this.parseResponse(response),
+        data,
         status: response.status(),
         headers: response.headers(),
+        attempts,
+        timing: {
+          totalMs: Date.now() - startTime,
+          ttfbMs,
+          requestBytes: requestBodySize(request.data),
+          responseBytes: (await response.body()).length,
+        },
       };
-    } catch (error) {
-      throw new Error(`DELETE request to ${url} failed: ${error}`);
     }
   }
 
@@ -193,25 +434,45 @@ export class ApiHelper {
 
   /**
    * Parse response based on content type
+   * JSON and XML are parsed, NDJSON becomes an array of records, text stays a string
+   * and any other declared media type is returned as a Buffer.
    * @param response - HTTP response object
+   * @param request - Request that produced the response, for error reporting
+   * @param attempts - Attempts made so far, for error reporting
    * @returns Parsed response data
+   * @throws ApiParseError when a JSON, NDJSON or XML body is malformed
    */
-  private async parseResponse(response: any): Promise<any> {
-    const contentType = response.headers()['content-type'] || '';
-    
-    if (contentType.includes('application/json')) {
+  private async parseResponse(response: any, request: ApiRequest, attempts: ApiAttempt[]): Promise<any> {
+    const contentType = (response.headers()['content-type'] || '').toLowerCase();
+    const parseWith = async (parse: (text: string) => any): Promise<any> => {
+      const text: string = await response.text();
+      if (!text.trim()) return text;
       try {
-        return await response.json();
-      } catch {
-        return await response.text();
+        return parse(text);
+      } catch (error) {
+        throw new ApiParseError(response.status(), contentType.split(';')[0], text, { request, attempts, cause: error });
       }
+    };
+    
+    if (/ndjson|jsonl|json-seq/.test(contentType)) {
+      return parseWith(text =>
+        text.split('\n').map(line => line.replace(/^\u001e/, '').trim()).filter(Boolean).map(line => JSON.parse(line))
+      );
+    }
+
+    if (contentType.includes('application/json') || contentType.includes('+json')) {
+      return parseWith(text => JSON.parse(text));
+    }
+
+    if (/[/+]xml\b/.test(contentType)) {
+      return parseWith(text => xmlParser.parse(text, true));
     }
     
-    if (contentType.includes('text/')) {
+    if (!contentType || contentType.startsWith('text/') || /javascript|x-www-form-urlencoded|graphql/.test(contentType)) {
       return await response.text();
     }
     
-    return await response.text();
+    return await response.body();
   }
 
   /**
@@ -239,10 +500,57 @@ export class ApiHelper {
     };
   }
 
+  /**
+   * Verify the response has the expected status code
+   * @param result - API response to check
+   * @param expectedStatus - Expected HTTP status code
+   */
+  async verifyStatus(result: ApiResponse, expectedStatus: number): Promise<void> {
+    expect(result).toHaveStatus(expectedStatus);
+  }
+
   /**
    * Get base URL being used
    */
   getBaseUrl(): string {
     return this.baseURL;
   }
+
+  /**
+   * Get the retry policy applied when a request does not override it
+   */
+  getRetryPolicy(): RetryPolicy {
+    return { ...this.retryPolicy };
+  }
+}
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// Attributes are kept under '@name' keys; the <?xml?> declaration is dropped
+const xmlParser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@', ignoreDeclaration: true });
+
+/**
+ * Size in bytes of a request body as it goes over the wire
+ */
+function requestBodySize(data: any): number {
+  if (data === undefined || data === null) return 0;
+  if (data instanceof RequestBody) return data.byteLength;
+  if (Buffer.isBuffer(data)) return data.length;
+  return Buffer.byteLength(typeof data === 'string' ? data : JSON.stringify(data));
+}
+
+/**
+ * Map a request body to the matching APIRequestContext.fetch option
+ */
+function toFetchBody(data: any): { data?: any; form?: any; multipart?: any } {
+  if (!(data instanceof RequestBody)) return { data };
+
+  switch (data.kind) {
+    case 'multipart':
+      return { multipart: data.payload };
+    case 'form':
+      return { form: data.payload };
+    default:
+      return { data: data.payload };
+  }
 }
@@ -0,0 +1,161 @@
+import { createHmac, randomUUID } from 'crypto';
+import { test } from '@playwright/test';
+import { ApiInterceptor, ApiRequest } from './api.helper';
+import { describeBody } from './api.body';
+
+// Interceptor configuration
+const INTERCEPTOR_CONFIG = {
+  CORRELATION_HEADER: 'X-Correlation-Id',
+  SIGNATURE_HEADER: 'X-Signature',
+  REDACTED: '[REDACTED]',
+  LOG_ATTACHMENT_NAME: 'api-log',
+  DEFAULT_REDACTED_HEADERS: ['authorization', 'cookie', 'set-cookie', 'x-api-key'],
+} as const;
+
+/** Headers masked by default wherever traffic is logged or persisted */
+export const DEFAULT_REDACTED_HEADERS: readonly string[] = INTERCEPTOR_CONFIG.DEFAULT_REDACTED_HEADERS;
+
+export interface SigningOptions {
+  secret: string;
+  header?: string;
+  algorithm?: 'sha256' | 'sha512';
+}
+
+export interface RedactionOptions {
+  headers?: string[];
+  fields?: string[];
+  /** Log sink, awaited when it returns a promise; lines are attached to the running test's report by default */
+  log?: (message: string) => void;
+}
+
+/**
+ * Attach a unique correlation ID header to every request
+ * The generated ID is also stored on request.meta.correlationId
+ * @param header - Header name to set
+ * @param generate - ID generator
+ */
+export function correlationIdInterceptor(
+  header: string = INTERCEPTOR_CONFIG.CORRELATION_HEADER,
+  generate: () => string = randomUUID
+): ApiInterceptor {
+  return {
+    name: 'correlation-id',
+    beforeRequest: (request) => {
+      const correlationId = request.headers[header] || generate();
+      request.meta.correlationId = correlationId;
+      request.headers = { ...request.headers, [header]: correlationId };
+    },
+  };
+}
+
+/**
+ * Sign every request with an HMAC over method, URL and body
+ * @param options - Secret, header name and hash algorithm
+ */
+export function signingInterceptor(options: SigningOptions): ApiInterceptor {
+  return {
+    name: 'request-signing',
+    beforeRequest: (request) => {
+      const signature = createHmac(options.algorithm || 'sha256', options.secret)
+        .update(signaturePayload(request))
+        .digest('hex');
+      request.headers = { ...request.headers, [options.header || INTERCEPTOR_CONFIG.SIGNATURE_HEADER]: signature };
+    },
+  };
+}
+
+/**
+ * Build the canonical string used for request signatures
+ * @param request - Request to sign
+ */
+export function signaturePayload(request: ApiRequest): string {
+  const body = request.data === undefined ? '' : JSON.stringify(request.data);
+  return `${request.method}\n${request.url}\n${body}`;
+}
+
+/**
+ * Log requests and responses with sensitive headers and body fields masked
+ * Lines go to the test report as "api-log" attachments unless a log sink is given;
+ * outside a running test a sink is required.
+ * @param options - Headers and body fields to redact, and the log sink
+ */
+export function redactingLoggerInterceptor(options: RedactionOptions = {}): ApiInterceptor {
+  const headers = (options.headers || [...DEFAULT_REDACTED_HEADERS]).map(h => h.toLowerCase());
+  const fields = options.fields || [];
+  const log = options.log || attachToReport;
+
+  return {
+    name: 'redacting-logger',
+    beforeRequest: async (request) => {
+      await log(`--> ${request.method} ${request.url} ${JSON.stringify({
+        headers: redactHeaders(request.headers, headers),
+        body: redactFields(describeBody(request.data), fields),
+      })}`);
+    },
+    afterResponse: async (response, request) => {
+      await log(`<-- ${response.status} ${request.method} ${request.url} ${JSON.stringify({
+        headers: redactHeaders(response.headers || {}, headers),
+        body: redactFields(response.data, fields),
+      })}`);
+    },
+    onError: async (error, request) => {
+      await log(`<-- ERROR ${request.method} ${request.url} ${error.message}`);
+    },
+  };
+}
+
+/**
+ * Default log sink of the redacting logger: one attachment per line
+ */
+async function attachToReport(message: string): Promise<void> {
+  let testInfo;
+  try {
+    testInfo = test.info();
+  } catch {
+    throw new Error('redactingLoggerInterceptor needs a log sink when used outside a running test');
+  }
+  await testInfo.attach(INTERCEPTOR_CONFIG.LOG_ATTACHMENT_NAME, { body: message, contentType: 'text/plain' });
+}
+
+/**
+ * Mask header values by name (case-insensitive)
+ * @param source - Headers to redact
+ * @param names - Lower-case header names to mask
+ */
+export function redactHeaders(source: Record<string, string>, names: string[]): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(source).map(([key, value]) =>
+      [key, names.includes(key.toLowerCase()) ? INTERCEPTOR_CONFIG.REDACTED : value]
+    )
+  );
+}
+
+/**
+ * Mask query parameter values by name
+ * @param rawUrl - Absolute URL to redact
+ * @param names - Query parameter names to mask
+ * @returns URL with the values of those parameters masked
+ */
+export function redactQuery(rawUrl: string, names: string[]): string {
+  const url = new URL(rawUrl);
+  const present = names.filter(name => url.searchParams.has(name));
+  if (present.length === 0) return rawUrl;
+  present.forEach(name => url.searchParams.set(name, INTERCEPTOR_CONFIG.REDACTED));
+  return url.toString();
+}
+
+/**
+ * Recursively mask object fields by name
+ * @param value - Body to redact
+ * @param fields - Field names to mask at any depth
+ */
+export function redactFields(value: any, fields: string[]): any {
+  if (fields.length === 0 || value === null || typeof value !== 'object' || Buffer.isBuffer(value)) return value;
+  if (Array.isArray(value)) return value.map(item => redactFields(item, fields));
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) =>
+      [key, fields.includes(key) ? INTERCEPTOR_CONFIG.REDACTED : redactFields(field, fields)]
+    )
+  );
+}
@@ -0,0 +1,296 @@
+import { TestInfo } from '@playwright/test';
+import { ApiHelper, ApiResponse } from './api.helper';
+import { expect } from './api.matchers';
+import { percentile } from './api.performance';
+
+// Load runner configuration
+const LOAD_CONFIG = {
+  /** Upper bounds of the latency histogram buckets in milliseconds */
+  HISTOGRAM_BOUNDS_MS: [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, Infinity],
+  /** Requests allowed in flight at once in requests-per-second mode */
+  DEFAULT_MAX_IN_FLIGHT: 100,
+  HISTOGRAM_BAR_WIDTH: 40,
+  ATTACHMENT_NAME: 'load-report.txt',
+} as const;
+
+// Type definitions for load runs
+export interface LoadContext {
+  apiHelper: ApiHelper;
+  /** Zero-based iteration number across the whole run */
+  iteration: number;
+  /** Virtual user running the iteration (0 in requests-per-second mode) */
+  vu: number;
+}
+
+/**
+ * One iteration of a load scenario; it fails when it throws or returns a non-2xx response
+ */
+export type LoadScenario = (context: LoadContext) => Promise<ApiResponse | void>;
+
+export interface LoadThresholds {
+  /** Highest acceptable 95th percentile latency in milliseconds */
+  p95Ms?: number;
+  /** Highest acceptable 99th percentile latency in milliseconds */
+  p99Ms?: number;
+  /** Highest acceptable share of failed iterations, between 0 and 1 */
+  maxErrorRate?: number;
+  /** Lowest acceptable throughput in iterations per second */
+  minThroughput?: number;
+}
+
+export interface LoadOptions {
+  /** Virtual users looping over the scenario (closed model); 1 unless rps is set */
+  concurrency?: number;
+  /** Iterations started per second regardless of latency (open model) */
+  rps?: number;
+  /** Requests allowed in flight at once in rps mode */
+  maxInFlight?: number;
+  /** Stop starting iterations after this many milliseconds */
+  durationMs?: number;
+  /** Stop after this many iterations */
+  iterations?: number;
+  thresholds?: LoadThresholds;
+  /** Fail the test on threshold breaches when the loadRunner fixture tears down; true by default */
+  failOnThresholds?: boolean;
+  /** Name used in the report, defaults to "load run N" */
+  name?: string;
+}
+
+export interface HistogramBucket {
+  /** Upper bound of the bucket in milliseconds (Infinity for the last one) */
+  upToMs: number;
+  count: number;
+}
+
+export interface LoadResult {
+  name: string;
+  iterations: number;
+  errors: number;
+  /** Failed iterations divided by iterations */
+  errorRate: number;
+  /** Wall time of the run in milliseconds */
+  durationMs: number;
+  /** Completed iterations per second */
+  throughput: number;
+  latency: { min: number; mean: number; p50: number; p90: number; p95: number; p99: number; max: number };
+  histogram: HistogramBucket[];
+  /** Count of responses per HTTP status */
+  statuses: Record<number, number>;
+  /** Count of failures per error message */
+  failures: Record<string, number>;
+  /** Threshold breaches, empty when the run passed */
+  violations: string[];
+}
+
+interface Sample {
+  latencyMs: number;
+  status?: number;
+  error?: string;
+}
+
+/**
+ * Runs an API scenario under load inside a regular Playwright test
+ * Use `concurrency` for a fixed number of virtual users or `rps` for a fixed arrival
+ * rate, bounded by `iterations` and/or `durationMs`, whichever comes first.
+ */
+export class LoadRunner {
+  private readonly apiHelper: ApiHelper;
+  private readonly runs: LoadResult[] = [];
+  private readonly unenforced = new WeakSet<LoadResult>();
+
+  constructor(apiHelper: ApiHelper) {
+    this.apiHelper = apiHelper;
+  }
+
+  /**
+   * Results of every run so far, in run order
+   */
+  get results(): LoadResult[] {
+    return [...this.runs];
+  }
+
+  /**
+   * Run a scenario and collect latency, error and throughput statistics
+   * @param scenario - Iteration to repeat; receives the ApiHelper and iteration numbers
+   * @param options - Load model, stop condition and thresholds
+   * @returns Statistics and threshold violations; the loadRunner fixture fails the test on
+   * them unless failOnThresholds is false
+   */
+  async run(scenario: LoadScenario, options: LoadOptions): Promise<LoadResult> {
+    if (options.iterations === undefined && options.durationMs === undefined) {
+      throw new Error('A load run needs iterations and/or durationMs to know when to stop');
+    }
+
+    const samples: Sample[] = [];
+    const startTime = Date.now();
+    const deadline = options.durationMs === undefined ? Infinity : startTime + options.durationMs;
+    const maxIterations = options.iterations ?? Infinity;
+    let started = 0;
+    const next = (): number | undefined => (started < maxIterations && Date.now() < deadline ? started++ : undefined);
+    const iterate = async (iteration: number, vu: number): Promise<void> => {
+      samples.push(await this.sample(scenario, { apiHelper: this.apiHelper, iteration, vu }));
+    };
+
+    if (options.rps) {
+      await this.runOpen(options.rps, options.maxInFlight ?? LOAD_CONFIG.DEFAULT_MAX_IN_FLIGHT, startTime, next, iterate);
+    } else {
+      const users = Array.from({ length: options.concurrency ?? 1 }, async (_, vu) => {
+        for (let iteration = next(); iteration !== undefined; iteration = next()) {
+          await iterate(iteration, vu);
+        }
+      });
+      await Promise.all(users);
+    }
+
+    const result = summarize(options.name ?? `load run ${this.runs.length + 1}`, samples, Date.now() - startTime, options.thresholds);
+    this.runs.push(result);
+    if (options.failOnThresholds === false) {
+      this.unenforced.add(result);
+    }
+    return result;
+  }
+
+  /**
+   * Assert a run, or every run so far, met its thresholds
+   * @param result - Run to check; all runs except those with failOnThresholds: false when omitted
+   */
+  assertThresholds(result?: LoadResult): void {
+    const checked = result ? [result] : this.runs.filter(run => !this.unenforced.has(run));
+    const violations = checked.flatMap(run => run.violations.map(violation => `${run.name}: ${violation}`));
+    expect(violations, `Load runs should meet their thresholds\n${checked.map(formatLoadReport).join('\n\n')}`).toEqual([]);
+  }
+
+  /**
+   * Attach a text report of every run to the test report; does nothing when nothing ran
+   * @param testInfo - Info of the running test
+   */
+  async attach(testInfo: TestInfo): Promise<void> {
+    if (this.runs.length === 0) return;
+    await testInfo.attach(LOAD_CONFIG.ATTACHMENT_NAME, { body: this.runs.map(formatLoadReport).join('\n\n'), contentType: 'text/plain' });
+  }
+
+  /**
+   * Start iterations at a fixed rate, waiting when too many are in flight
+   */
+  private async runOpen(
+    rps: number,
+    maxInFlight: number,
+    startTime: number,
+    next: () => number | undefined,
+    iterate: (iteration: number, vu: number) => Promise<void>
+  ): Promise<void> {
+    const inFlight = new Set<Promise<void>>();
+    const intervalMs = 1000 / rps;
+
+    for (let iteration = next(); iteration !== undefined; iteration = next()) {
+      const pending = iterate(iteration, 0).finally(() => inFlight.delete(pending));
+      inFlight.add(pending);
+
+      if (inFlight.size >= maxInFlight) {
+        await Promise.race(inFlight);
+      }
+      const dueAt = startTime + (iteration + 1) * intervalMs;
+      await sleep(Math.max(0, dueAt - Date.now()));
+    }
+    await Promise.all(inFlight);
+  }
+
+  /**
+   * Run one iteration and classify its outcome
+   */
+  private async sample(scenario: LoadScenario, context: LoadContext): Promise<Sample> {
+    const startTime = Date.now();
+    try {
+      const response = await scenario(context);
+      const latencyMs = Date.now() - startTime;
+      if (response && (response.status < 200 || response.status > 299)) {
+        return { latencyMs, status: response.status, error: `HTTP ${response.status}` };
+      }
+      return { latencyMs, status: response ? response.status : undefined };
+    } catch (error) {
+      return { latencyMs: Date.now() - startTime, error: error instanceof Error ? error.message.split('\n')[0] : String(error) };
+    }
+  }
+}
+
+/**
+ * Multi-line text report of a run: summary, latency percentiles and histogram
+ * @param result - Run to describe
+ */
+export function formatLoadReport(result: LoadResult): string {
+  const { latency } = result;
+  const widest = Math.max(1, ...result.histogram.map(bucket => bucket.count));
+  const lastBound = LOAD_CONFIG.HISTOGRAM_BOUNDS_MS[LOAD_CONFIG.HISTOGRAM_BOUNDS_MS.length - 2];
+  const lines = [
+    `${result.name}: ${result.iterations} iterations in ${result.durationMs}ms ` +
+      `(${result.throughput.toFixed(1)}/s), ${result.errors} errors (${(result.errorRate * 100).toFixed(1)}%)`,
+    `latency ms: min ${latency.min} | mean ${latency.mean} | p50 ${latency.p50} | p90 ${latency.p90} | ` +
+      `p95 ${latency.p95} | p99 ${latency.p99} | max ${latency.max}`,
+    ...result.histogram.map(bucket => {
+      const label = bucket.upToMs === Infinity ? `> ${lastBound}` : `<= ${bucket.upToMs}`;
+      const bar = '#'.repeat(Math.round((bucket.count / widest) * LOAD_CONFIG.HISTOGRAM_BAR_WIDTH));
+      return `  ${label.padStart(7)}ms ${String(bucket.count).padStart(6)} ${bar}`;
+    }),
+    ...Object.entries(result.failures).map(([message, count]) => `  failure x${count}: ${message}`),
+    ...result.violations.map(violation => `  THRESHOLD: ${violation}`),
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Reduce samples to statistics and check them against the thresholds
+ */
+function summarize(name: string, samples: Sample[], durationMs: number, thresholds: LoadThresholds = {}): LoadResult {
+  const latencies = samples.map(sample => sample.latencyMs);
+  // Sorted once for min/max: spreading a long run into Math.min() overflows the stack
+  const sorted = [...latencies].sort((a, b) => a - b);
+  const errors = samples.filter(sample => sample.error !== undefined);
+  const iterations = samples.length;
+  const result: LoadResult = {
+    name,
+    iterations,
+    errors: errors.length,
+    errorRate: iterations === 0 ? 0 : errors.length / iterations,
+    durationMs,
+    throughput: durationMs === 0 ? iterations : (iterations * 1000) / durationMs,
+    latency: {
+      min: iterations === 0 ? 0 : sorted[0],
+      mean: iterations === 0 ? 0 : Math.round(latencies.reduce((sum, value) => sum + value, 0) / iterations),
+      p50: percentile(latencies, 50),
+      p90: percentile(latencies, 90),
+      p95: percentile(latencies, 95),
+      p99: percentile(latencies, 99),
+      max: iterations === 0 ? 0 : sorted[sorted.length - 1],
+    },
+    histogram: LOAD_CONFIG.HISTOGRAM_BOUNDS_MS.map((upToMs, index) => ({
+      upToMs,
+      count: latencies.filter(value => value <= upToMs && (index === 0 || value > LOAD_CONFIG.HISTOGRAM_BOUNDS_MS[index - 1])).length,
+    })),
+    statuses: countBy(samples.filter(sample => sample.status !== undefined).map(sample => String(sample.status))),
+    failures: countBy(errors.map(sample => sample.error as string)),
+    violations: [],
+  };
+
+  if (thresholds.p95Ms !== undefined && result.latency.p95 > thresholds.p95Ms) {
+    result.violations.push(`p95 latency ${result.latency.p95}ms exceeds ${thresholds.p95Ms}ms`);
+  }
+  if (thresholds.p99Ms !== undefined && result.latency.p99 > thresholds.p99Ms) {
+    result.violations.push(`p99 latency ${result.latency.p99}ms exceeds ${thresholds.p99Ms}ms`);
+  }
+  if (thresholds.maxErrorRate !== undefined && result.errorRate > thresholds.maxErrorRate) {
+    result.violations.push(`error rate ${(result.errorRate * 100).toFixed(1)}% exceeds ${(thresholds.maxErrorRate * 100).toFixed(1)}%`);
+  }
+  if (thresholds.minThroughput !== undefined && result.throughput < thresholds.minThroughput) {
+    result.violations.push(`throughput ${result.throughput.toFixed(1)}/s is below ${thresholds.minThroughput}/s`);
+  }
+  return result;
+}
+
+/**
+ * Count occurrences of each value
+ */
+function countBy(values: string[]): Record<string, number> {
+  return values.reduce<Record<string, number>>((counts, value) => ({ ...counts, [value]: (counts[value] || 0) + 1 }), {});
+}
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
@@ -0,0 +1,170 @@
+import { expect as baseExpect, ExpectMatcherState, MatcherReturnType } from '@playwright/test';
+import { ApiResponse } from './api.helper';
+import { SchemaRef, SchemaValidator } from './schema.validator';
+
+// Matcher configuration
+const MATCHER_CONFIG = {
+  BODY_EXCERPT_LENGTH: 500,
+} as const;
+
+/**
+ * Custom expect matchers for ApiHelper responses
+ * Failures print the request, the response and an excerpt of the body.
+ * Schema matchers accept either an ApiResponse (checking its data) or a plain payload.
+ */
+export const apiMatchers = {
+  /**
+   * Assert the response status equals one of the expected codes
+   */
+  toHaveStatus(this: ExpectMatcherState, received: ApiResponse, expected: number | number[]): MatcherReturnType {
+    const allowed = Array.isArray(expected) ? expected : [expected];
+    const pass = allowed.includes(received.status);
+    return result(this, 'toHaveStatus', pass, received, () =>
+      `Expected status: ${this.isNot ? 'not ' : ''}${this.utils.printExpected(allowed.length === 1 ? allowed[0] : allowed)}\n` +
+      `Received status: ${this.utils.printReceived(received.status)}`
+    );
+  },
+
+  /**
+   * Assert the response status is in the 2xx range
+   */
+  toBeSuccessful(this: ExpectMatcherState, received: ApiResponse): MatcherReturnType {
+    const pass = received.status >= 200 && received.status < 300;
+    return result(this, 'toBeSuccessful', pass, received, () =>
+      `Expected status: ${this.isNot ? 'not ' : ''}2xx\n` +
+      `Received status: ${this.utils.printReceived(received.status)}`
+    );
+  },
+
+  /**
+   * Assert the payload matches a registered or inline JSON Schema
+   */
+  toMatchSchema(this: ExpectMatcherState, received: unknown, schema: SchemaRef): MatcherReturnType {
+    return schemaResult(this, 'toMatchSchema', received, schema, typeof schema === 'string' ? schema : 'Payload');
+  },
+
+  /**
+   * Assert the payload is a valid Post
+   */
+  toBeValidPost(this: ExpectMatcherState, received: unknown): MatcherReturnType {
+    return schemaResult(this, 'toBeValidPost', received, 'post', 'Post');
+  },
+
+  /**
+   * Assert the payload is a valid User
+   */
+  toBeValidUser(this: ExpectMatcherState, received: unknown): MatcherReturnType {
+    return schemaResult(this, 'toBeValidUser', received, 'user', 'User');
+  },
+
+  /**
+   * Assert the payload is a valid Comment
+   */
+  toBeValidComment(this: ExpectMatcherState, received: unknown): MatcherReturnType {
+    return schemaResult(this, 'toBeValidComment', received, 'comment', 'Comment');
+  },
+
+  /**
+   * Assert a response header is present, optionally with an exact or matching value
+   */
+  toHaveHeader(this: ExpectMatcherState, received: ApiResponse, name: string, value?: string | RegExp): MatcherReturnType {
+    const actual = received.headers?.[name.toLowerCase()];
+    const pass = actual !== undefined && (value === undefined || (typeof value === 'string' ? actual === value : value.test(actual)));
+    return result(this, 'toHaveHeader', pass, received, () =>
+      `Expected header ${name}: ${this.isNot ? 'not ' : ''}${value === undefined ? 'present' : this.utils.printExpected(value)}\n` +
+      `Received header ${name}: ${actual === undefined ? 'missing' : this.utils.printReceived(actual)}`
+    );
+  },
+
+  /**
+   * Assert the Content-Type header includes the expected media type
+   */
+  toHaveContentType(this: ExpectMatcherState, received: ApiResponse, expected: string): MatcherReturnType {
+    const actual = received.headers?.['content-type'];
+    const pass = actual !== undefined && actual.includes(expected);
+    return result(this, 'toHaveContentType', pass, received, () =>
+      `Expected content type: ${this.isNot ? 'not ' : ''}${this.utils.printExpected(expected)}\n` +
+      `Received content type: ${actual === undefined ? 'missing' : this.utils.printReceived(actual)}`
+    );
+  },
+
+  /**
+   * Assert the final attempt completed within the given number of milliseconds
+   */
+  toRespondWithin(this: ExpectMatcherState, received: ApiResponse, ms: number): MatcherReturnType {
+    const duration = received.timing?.totalMs ?? received.attempts?.[received.attempts.length - 1]?.durationMs;
+    const pass = duration !== undefined && duration <= ms;
+    return result(this, 'toRespondWithin', pass, received, () =>
+      `Expected duration: ${this.isNot ? 'more than' : 'at most'} ${ms}ms\n` +
+      `Received duration: ${duration === undefined ? 'unknown (response was not fetched live)' : `${duration}ms`}`
+    );
+  },
+};
+
+/**
+ * Playwright expect with the API matchers registered
+ */
+export const expect = baseExpect.extend(apiMatchers);
+
+/**
+ * Build a matcher result whose message describes the exchange
+ */
+function result(
+  state: ExpectMatcherState,
+  name: string,
+  pass: boolean,
+  received: unknown,
+  detail: () => string
+): MatcherReturnType {
+  return {
+    name,
+    pass,
+    message: () => [
+      state.utils.matcherHint(name, 'response', undefined, { isNot: state.isNot }),
+      detail(),
+      ...(isApiResponse(received) ? [describeExchange(received)] : []),
+    ].join('\n\n'),
+  };
+}
+
+/**
+ * Validate a payload, or the data of a response, against a schema
+ */
+function schemaResult(state: ExpectMatcherState, name: string, received: unknown, schema: SchemaRef, label: string): MatcherReturnType {
+  const violations = SchemaValidator.default.validate(schema, isApiResponse(received) ? received.data : received);
+  return result(state, name, violations.length === 0, received, () =>
+    state.isNot
+      ? `Expected payload not to match the ${label} schema`
+      : `${label} should match schema:\n${SchemaValidator.format(violations)}`
+  );
+}
+
+/**
+ * Render the request line, status line and body excerpt of an exchange
+ * @param response - Response to describe
+ */
+export function describeExchange(response: ApiResponse): string {
+  const request = response.request;
+  const attempts = response.attempts && response.attempts.length > 1 ? ` after ${response.attempts.length} attempts` : '';
+  const lines = [
+    `Request:  ${request ? `${request.method} ${request.url}` : 'unknown'}`,
+    ...(request?.data !== undefined ? [`Payload:  ${excerpt(request.data)}`] : []),
+    `Response: ${response.status} ${response.headers?.['content-type'] || ''}${attempts}`.trimEnd(),
+    `Body:     ${excerpt(response.data)}`,
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Serialize a body and cut it to a readable length
+ */
+function excerpt(body: unknown): string {
+  const text = typeof body === 'string' ? body : JSON.stringify(body);
+  if (text === undefined || text === '') return '(empty)';
+  return text.length > MATCHER_CONFIG.BODY_EXCERPT_LENGTH
+    ? `${text.slice(0, MATCHER_CONFIG.BODY_EXCERPT_LENGTH)}… (${text.length} chars)`
+    : text;
+}
+
+const isApiResponse = (value: unknown): value is ApiResponse =>
+  typeof value === 'object' && value !== null && 'status' in value && 'data' in value;
@@ -0,0 +1,240 @@
+import { ApiHelper, ApiResponse, RequestOptions } from './api.helper';
+
+// Pagination configuration
+const PAGINATION_CONFIG = {
+  DEFAULT_LIMIT: 10,
+  DEFAULT_MAX_PAGES: 100,
+  PAGE_PARAM: '_page',
+  LIMIT_PARAM: '_limit',
+  CURSOR_PARAM: 'cursor',
+  CURSOR_PATH: 'nextCursor',
+  ITEMS_PATH: 'data',
+  TOTAL_HEADER: 'x-total-count',
+} as const;
+
+// Type definitions for pagination strategies
+/**
+ * Page number + page size query parameters (json-server style `_page`/`_limit`)
+ * Stops on a short or empty page, or once X-Total-Count items were served.
+ */
+export interface OffsetPagination {
+  type: 'offset';
+  limit?: number;
+  startPage?: number;
+  pageParam?: string;
+  limitParam?: string;
+  /** Dot path to the items when the body is not the array itself */
+  itemsPath?: string;
+}
+
+/**
+ * Opaque cursor returned in the body and sent back as a query parameter
+ * Stops when the body carries no cursor.
+ */
+export interface CursorPagination {
+  type: 'cursor';
+  limit?: number;
+  limitParam?: string;
+  cursorParam?: string;
+  /** Dot path to the next cursor in the body, e.g. 'meta.next' */
+  cursorPath?: string;
+  itemsPath?: string;
+}
+
+/**
+ * RFC 5988 `Link: <url>; rel="next"` headers
+ * The first request uses the query params passed in the options.
+ */
+export interface LinkPagination {
+  type: 'link';
+  itemsPath?: string;
+}
+
+export type PaginationStrategy = OffsetPagination | CursorPagination | LinkPagination;
+
+export interface PaginateOptions extends RequestOptions {
+  /** Safety limit on the number of pages fetched */
+  maxPages?: number;
+  /** What to do when more pages remain after maxPages: fail (default) or stop quietly */
+  onMaxPages?: 'throw' | 'stop';
+}
+
+export interface PageResult<T> {
+  /** 1-based position of the page in the walk */
+  number: number;
+  items: T[];
+  response: ApiResponse;
+  /** Total item count announced by the server, when available */
+  total?: number;
+}
+
+interface PageRequest {
+  endpoint: string;
+  params: Record<string, string>;
+}
+
+/**
+ * Lazy walk over a paginated list endpoint
+ * Iterate it directly for items, or call pages() for whole pages.
+ */
+export class Paginator<T = any> implements AsyncIterable<T> {
+  private readonly apiHelper: ApiHelper;
+  private readonly endpoint: string;
+  private readonly strategy: PaginationStrategy;
+  private readonly options: PaginateOptions;
+
+  constructor(apiHelper: ApiHelper, endpoint: string, strategy: PaginationStrategy, options: PaginateOptions = {}) {
+    this.apiHelper = apiHelper;
+    this.endpoint = endpoint;
+    this.strategy = strategy;
+    this.options = options;
+  }
+
+  /**
+   * Fetch pages one by one until the strategy reports the last page
+   * @throws When a page fails, has no item array, or maxPages is exceeded
+   */
+  async *pages(): AsyncGenerator<PageResult<T>> {
+    const maxPages = this.options.maxPages ?? PAGINATION_CONFIG.DEFAULT_MAX_PAGES;
+    const seen = new Set<string>();
+    let request: PageRequest | undefined = this.firstRequest();
+
+    for (let number = 1; request; number++) {
+      const response = await this.apiHelper.get(request.endpoint, { ...this.options, params: request.params });
+      if (response.status < 200 || response.status >= 300) {
+        throw new Error(`Page ${number} of ${this.endpoint} failed with status ${response.status}`);
+      }
+
+      const items = extractItems<T>(response.data, this.strategy.itemsPath, number);
+      const totalHeader = response.headers?.[PAGINATION_CONFIG.TOTAL_HEADER];
+      const page: PageResult<T> = { number, items, response, total: totalHeader ? Number(totalHeader) : undefined };
+      yield page;
+
+      const next = this.nextRequest(request, page);
+      if (next) {
+        const key = `${next.endpoint}?${new URLSearchParams(next.params)}`;
+        if (seen.has(key)) {
+          throw new Error(`Pagination of ${this.endpoint} loops: page ${number} points back to ${key}`);
+        }
+        seen.add(key);
+
+        if (number >= maxPages) {
+          if (this.options.onMaxPages === 'stop') return;
+          throw new Error(`Pagination of ${this.endpoint} exceeded maxPages (${maxPages}); raise the limit or check the last-page condition`);
+        }
+      }
+      request = next;
+    }
+  }
+
+  /**
+   * Iterate over the items of every page
+   */
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    for await (const page of this.pages()) {
+      yield* page.items;
+    }
+  }
+
+  /**
+   * Collect every page
+   */
+  async collectPages(): Promise<PageResult<T>[]> {
+    const pages: PageResult<T>[] = [];
+    for await (const page of this.pages()) {
+      pages.push(page);
+    }
+    return pages;
+  }
+
+  /**
+   * Collect the items of every page
+   */
+  async toArray(): Promise<T[]> {
+    return (await this.collectPages()).flatMap(page => page.items);
+  }
+
+  /**
+   * Build the request for the first page
+   */
+  private firstRequest(): PageRequest {
+    const params: Record<string, string> = { ...this.options.params };
+    const strategy = this.strategy;
+
+    if (strategy.type === 'offset') {
+      params[strategy.pageParam || PAGINATION_CONFIG.PAGE_PARAM] = String(strategy.startPage ?? 1);
+      params[strategy.limitParam || PAGINATION_CONFIG.LIMIT_PARAM] = String(strategy.limit ?? PAGINATION_CONFIG.DEFAULT_LIMIT);
+    } else if (strategy.type === 'cursor' && strategy.limit !== undefined) {
+      params[strategy.limitParam || PAGINATION_CONFIG.LIMIT_PARAM] = String(strategy.limit);
+    }
+    return { endpoint: this.endpoint, params };
+  }
+
+  /**
+   * Build the request for the page after `page`, or undefined on the last page
+   */
+  private nextRequest(current: PageRequest, page: PageResult<T>): PageRequest | undefined {
+    const strategy = this.strategy;
+
+    switch (strategy.type) {
+      case 'offset': {
+        const limit = strategy.limit ?? PAGINATION_CONFIG.DEFAULT_LIMIT;
+        const pageParam = strategy.pageParam || PAGINATION_CONFIG.PAGE_PARAM;
+        const served = (Number(current.params[pageParam]) - (strategy.startPage ?? 1) + 1) * limit;
+        if (page.items.length < limit || (page.total !== undefined && served >= page.total)) return undefined;
+        return { endpoint: current.endpoint, params: { ...current.params, [pageParam]: String(Number(current.params[pageParam]) + 1) } };
+      }
+      case 'cursor': {
+        const cursor = readPath(page.response.data, strategy.cursorPath || PAGINATION_CONFIG.CURSOR_PATH);
+        if (cursor === undefined || cursor === null || cursor === '') return undefined;
+        return { endpoint: current.endpoint, params: { ...current.params, [strategy.cursorParam || PAGINATION_CONFIG.CURSOR_PARAM]: String(cursor) } };
+      }
+      case 'link': {
+        const next = parseLinkHeader(page.response.headers?.link).next;
+        return next ? { endpoint: this.toEndpoint(next), params: {} } : undefined;
+      }
+    }
+  }
+
+  /**
+   * Turn an absolute next-page URL into an endpoint under the helper's base URL
+   */
+  private toEndpoint(url: string): string {
+    const baseURL = this.apiHelper.getBaseUrl();
+    if (!url.startsWith(baseURL)) {
+      throw new Error(`Next page ${url} of ${this.endpoint} is outside the base URL ${baseURL}`);
+    }
+    return url.slice(baseURL.length);
+  }
+}
+
+/**
+ * Parse an RFC 5988 Link header into a rel -> URL map
+ * @param header - Raw header value
+ */
+export function parseLinkHeader(header?: string): Record<string, string> {
+  const links: Record<string, string> = {};
+  for (const match of (header || '').matchAll(/<([^>]*)>\s*((?:;\s*[^;,]+)*)/g)) {
+    const rel = /;\s*rel="?([^";]+)"?/i.exec(match[2])?.[1];
+    rel?.split(/\s+/).forEach(name => { links[name.toLowerCase()] = match[1]; });
+  }
+  return links;
+}
+
+/**
+ * Read a dot-separated path from a value
+ */
+function readPath(value: any, path: string): any {
+  return path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), value);
+}
+
+/**
+ * Get the item array of a page body
+ */
+function extractItems<T>(data: any, itemsPath: string | undefined, number: number): T[] {
+  const items = itemsPath ? readPath(data, itemsPath) : Array.isArray(data) ? data : readPath(data, PAGINATION_CONFIG.ITEMS_PATH);
+  if (!Array.isArray(items)) {
+    throw new Error(`Page ${number} has no item array${itemsPath ? ` at "${itemsPath}"` : ''}`);
+  }
+  return items;
+}
@@ -0,0 +1,207 @@
+import { TestInfo } from '@playwright/test';
+import { ApiHelper, ApiResponse, HttpMethod, RequestOptions } from './api.helper';
+import { expect } from './api.matchers';
+
+// Performance budget configuration
+const PERFORMANCE_CONFIG = {
+  DEFAULT_SAMPLES: 10,
+  ATTACHMENT_NAME: 'performance-budgets.md',
+} as const;
+
+// Type definitions for performance budgets
+export interface PerformanceBudget {
+  /** HTTP method, GET by default */
+  method?: HttpMethod;
+  endpoint: string;
+  /** Request body for POST, PUT and PATCH budgets */
+  data?: any;
+  options?: RequestOptions;
+  /** Number of sequential requests measured, 10 by default */
+  samples?: number;
+  /** Median total time allowed, in milliseconds */
+  p50Ms: number;
+  /** 95th percentile total time allowed, in milliseconds */
+  p95Ms: number;
+}
+
+export interface BudgetResult {
+  /** "METHOD endpoint" */
+  name: string;
+  budget: PerformanceBudget;
+  samples: number;
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+  /** Median time until the response arrived */
+  ttfbP50Ms: number;
+  /** Mean response body size in bytes */
+  meanResponseBytes: number;
+  /** Samples answered with a non-2xx status */
+  errors: number;
+  /** Budget breaches, empty when the endpoint is within budget */
+  violations: string[];
+}
+
+/**
+ * Measures endpoints against declarative latency budgets
+ * Samples run sequentially so that one request never queues behind another;
+ * every measured endpoint ends up in the summary table attached to the report.
+ */
+export class PerformanceBudgetRunner {
+  private readonly apiHelper: ApiHelper;
+  private readonly budgets: PerformanceBudget[];
+  private readonly measured: BudgetResult[] = [];
+
+  constructor(apiHelper: ApiHelper, budgets: PerformanceBudget[]) {
+    this.apiHelper = apiHelper;
+    this.budgets = budgets;
+  }
+
+  /**
+   * Results measured so far, in measurement order
+   */
+  get results(): BudgetResult[] {
+    return [...this.measured];
+  }
+
+  /**
+   * Measure one endpoint
+   * @param target - Configured budget name ("GET /posts" or just "/posts"), or an ad-hoc budget
+   * @returns Percentiles and any budget violations
+   */
+  async measure(target: string | PerformanceBudget): Promise<BudgetResult> {
+    const budget = typeof target === 'string' ? this.find(target) : target;
+    const samples = budget.samples ?? PERFORMANCE_CONFIG.DEFAULT_SAMPLES;
+    if (!Number.isInteger(samples) || samples < 1) {
+      throw new Error(`${budgetName(budget)} needs at least one sample, got ${samples}`);
+    }
+    const totals: number[] = [];
+    const ttfbs: number[] = [];
+    const sizes: number[] = [];
+    let errors = 0;
+
+    for (let i = 0; i < samples; i++) {
+      const response = await this.send(budget);
+      const timing = response.timing;
+      if (!timing) {
+        throw new Error(`${budgetName(budget)} returned a response without timing; budgets need live traffic, not a replayed cassette`);
+      }
+      totals.push(timing.totalMs);
+      ttfbs.push(timing.ttfbMs);
+      sizes.push(timing.responseBytes);
+      if (response.status < 200 || response.status > 299) errors++;
+    }
+
+    const result: BudgetResult = {
+      name: budgetName(budget),
+      budget,
+      samples,
+      p50Ms: percentile(totals, 50),
+      p95Ms: percentile(totals, 95),
+      maxMs: [...totals].sort((a, b) => a - b)[totals.length - 1],
+      ttfbP50Ms: percentile(ttfbs, 50),
+      meanResponseBytes: Math.round(sizes.reduce((sum, size) => sum + size, 0) / samples),
+      errors,
+      violations: [],
+    };
+    if (result.p50Ms > budget.p50Ms) result.violations.push(`p50 ${result.p50Ms}ms exceeds ${budget.p50Ms}ms`);
+    if (result.p95Ms > budget.p95Ms) result.violations.push(`p95 ${result.p95Ms}ms exceeds ${budget.p95Ms}ms`);
+    if (errors > 0) result.violations.push(`${errors} of ${samples} samples returned a non-2xx status`);
+
+    this.measured.push(result);
+    return result;
+  }
+
+  /**
+   * Measure every configured budget
+   * @returns One result per budget, in configuration order
+   */
+  async measureAll(): Promise<BudgetResult[]> {
+    const results: BudgetResult[] = [];
+    for (const budget of this.budgets) {
+      results.push(await this.measure(budget));
+    }
+    return results;
+  }
+
+  /**
+   * Assert every measured endpoint stayed within its budget
+   */
+  assertWithinBudgets(): void {
+    const violations = this.measured.flatMap(result => result.violations.map(violation => `${result.name}: ${violation}`));
+    expect(violations, `Endpoints should stay within their performance budgets\n${this.summaryTable()}`).toEqual([]);
+  }
+
+  /**
+   * Markdown table of the measured endpoints against their budgets
+   */
+  summaryTable(): string {
+    const rows = this.measured.map(result => [
+      result.name,
+      String(result.samples),
+      `${result.p50Ms} / ${result.budget.p50Ms}`,
+      `${result.p95Ms} / ${result.budget.p95Ms}`,
+      String(result.maxMs),
+      String(result.ttfbP50Ms),
+      String(result.meanResponseBytes),
+      result.violations.length === 0 ? 'ok' : 'OVER BUDGET',
+    ]);
+    return [
+      '| Endpoint | Samples | p50 ms (budget) | p95 ms (budget) | Max ms | TTFB p50 ms | Avg bytes | Result |',
+      '|---|---|---|---|---|---|---|---|',
+      ...rows.map(row => `| ${row.join(' | ')} |`),
+    ].join('\n');
+  }
+
+  /**
+   * Attach the summary table to the test report; does nothing when nothing was measured
+   * @param testInfo - Info of the running test
+   */
+  async attach(testInfo: TestInfo): Promise<void> {
+    if (this.measured.length === 0) return;
+    await testInfo.attach(PERFORMANCE_CONFIG.ATTACHMENT_NAME, { body: this.summaryTable(), contentType: 'text/markdown' });
+  }
+
+  /**
+   * Look up a configured budget by name
+   */
+  private find(name: string): PerformanceBudget {
+    const budget = this.budgets.find(candidate => budgetName(candidate) === name || candidate.endpoint === name);
+    if (!budget) {
+      throw new Error(`No performance budget configured for ${name}; known: ${this.budgets.map(budgetName).join(', ')}`);
+    }
+    return budget;
+  }
+
+  /**
+   * Send one sample request
+   */
+  private send(budget: PerformanceBudget): Promise<ApiResponse> {
+    switch (budget.method ?? 'GET') {
+      case 'POST':
+        return this.apiHelper.post(budget.endpoint, budget.data, budget.options);
+      case 'PUT':
+        return this.apiHelper.put(budget.endpoint, budget.data, budget.options);
+      case 'PATCH':
+        return this.apiHelper.patch(budget.endpoint, budget.data, budget.options);
+      case 'DELETE':
+        return this.apiHelper.delete(budget.endpoint, budget.options);
+      default:
+        return this.apiHelper.get(budget.endpoint, budget.options);
+    }
+  }
+}
+
+/**
+ * Nearest-rank percentile
+ * @param values - Samples, in any order
+ * @param p - Percentile between 0 and 100
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.max(1, Math.ceil((p / 100) * sorted.length));
+  return sorted[rank - 1];
+}
+
+const budgetName = (budget: PerformanceBudget): string => `${budget.method ?? 'GET'} ${budget.endpoint}`;
@@ -0,0 +1,191 @@
+import { ApiHelper, ApiResponse, RequestOptions } from './api.helper';
+import { ApiValidators, Comment, Post, User } from './api.validators';
+
+// Type definitions for resource clients
+export interface ResourceRequestOptions extends RequestOptions {
+  /** Validate 2xx response bodies against the entity validator (default: true) */
+  validate?: boolean;
+}
+
+export interface ListOptions extends ResourceRequestOptions {
+  limit?: number;
+  page?: number;
+}
+
+export type EntityValidator<T> = (entity: any) => asserts entity is T;
+
+/**
+ * Typed CRUD client for a JSONPlaceholder-style collection
+ * Successful responses are validated with the matching ApiValidators method
+ */
+export class ResourceClient<T extends { id: number }> {
+  protected readonly apiHelper: ApiHelper;
+  protected readonly basePath: string;
+  protected readonly validator: EntityValidator<T>;
+
+  constructor(apiHelper: ApiHelper, basePath: string, validator: EntityValidator<T>) {
+    this.apiHelper = apiHelper;
+    this.basePath = basePath;
+    this.validator = validator;
+  }
+
+  /**
+   * Get a single entity by ID
+   * @param id - Entity ID
+   * @param options - Request options
+   */
+  async get(id: number, options?: ResourceRequestOptions): Promise<ApiResponse<T>> {
+    const result = await this.apiHelper.get<T>(`${this.basePath}/${id}`, options);
+    return this.validateOne(result, options);
+  }
+
+  /**
+   * List entities, optionally paginated
+   * @param options - Limit, page, extra query params and request options
+   */
+  async list(options?: ListOptions): Promise<ApiResponse<T[]>> {
+    return this.listAt(this.basePath, this.validator, options);
+  }
+
+  /**
+   * Create an entity
+   * @param data - Entity without ID
+   * @param options - Request options
+   */
+  async create(data: Omit<T, 'id'>, options?: ResourceRequestOptions): Promise<ApiResponse<T>> {
+    const result = await this.apiHelper.post<T>(this.basePath, data, options);
+    return this.validateOne(result, options);
+  }
+
+  /**
+   * Replace an entity
+   * @param id - Entity ID
+   * @param data - Full entity
+   * @param options - Request options
+   */
+  async update(id: number, data: Omit<T, 'id'> & { id?: number }, options?: ResourceRequestOptions): Promise<ApiResponse<T>> {
+    const result = await this.apiHelper.put<T>(`${this.basePath}/${id}`, data, options);
+    return this.validateOne(result, options);
+  }
+
+  /**
+   * Partially update an entity
+   * @param id - Entity ID
+   * @param data - Fields to change
+   * @param options - Request options
+   */
+  async patch(id: number, data: Partial<T>, options?: ResourceRequestOptions): Promise<ApiResponse<T>> {
+    const result = await this.apiHelper.patch<T>(`${this.basePath}/${id}`, data, options);
+    return this.validateOne(result, options);
+  }
+
+  /**
+   * Delete an entity
+   * @param id - Entity ID
+   * @param options - Request options
+   */
+  async remove(id: number, options?: RequestOptions): Promise<ApiResponse<unknown>> {
+    return this.apiHelper.delete(`${this.basePath}/${id}`, options);
+  }
+
+  /**
+   * List a (possibly nested) collection and validate every item
+   * @param path - Collection path
+   * @param validator - Validator for each item
+   * @param options - Limit, page, extra query params and request options
+   */
+  protected async listAt<U>(path: string, validator: EntityValidator<U>, options?: ListOptions): Promise<ApiResponse<U[]>> {
+    const params: Record<string, string> = { ...options?.params };
+    if (options?.limit !== undefined) params._limit = String(options.limit);
+    if (options?.page !== undefined) params._page = String(options.page);
+
+    const result = await this.apiHelper.get<U[]>(path, { ...options, params });
+    if (shouldValidate(result, options)) {
+      ApiValidators.validateArrayResponse(result.data, validator, 0);
+    }
+    return result;
+  }
+
+  /**
+   * Validate a single-entity response
+   */
+  private validateOne(result: ApiResponse<T>, options?: ResourceRequestOptions): ApiResponse<T> {
+    if (shouldValidate(result, options)) {
+      this.validator(result.data);
+    }
+    return result;
+  }
+}
+
+/**
+ * Client for /posts and its nested comments
+ */
+export class PostsClient extends ResourceClient<Post> {
+  constructor(apiHelper: ApiHelper) {
+    super(apiHelper, '/posts', ApiValidators.validatePostStructure);
+  }
+
+  /**
+   * List the comments of a post
+   * @param postId - Post ID
+   * @param options - Limit, page and request options
+   */
+  async comments(postId: number, options?: ListOptions): Promise<ApiResponse<Comment[]>> {
+    return this.listAt(`${this.basePath}/${postId}/comments`, ApiValidators.validateCommentStructure, options);
+  }
+}
+
+/**
+ * Client for /users and their nested posts
+ */
+export class UsersClient extends ResourceClient<User> {
+  constructor(apiHelper: ApiHelper) {
+    super(apiHelper, '/users', ApiValidators.validateUserStructure);
+  }
+
+  /**
+   * List the posts written by a user
+   * @param userId - User ID
+   * @param options - Limit, page and request options
+   */
+  async posts(userId: number, options?: ListOptions): Promise<ApiResponse<Post[]>> {
+    return this.listAt(`${this.basePath}/${userId}/posts`, ApiValidators.validatePostStructure, options);
+  }
+}
+
+/**
+ * Client for /comments
+ */
+export class CommentsClient extends ResourceClient<Comment> {
+  constructor(apiHelper: ApiHelper) {
+    super(apiHelper, '/comments', ApiValidators.validateCommentStructure);
+  }
+
+  /**
+   * List comments filtered by post
+   * @param postId - Post ID
+   * @param options - Limit, page and request options
+   */
+  async forPost(postId: number, options?: ListOptions): Promise<ApiResponse<Comment[]>> {
+    return this.list({ ...options, params: { ...options?.params, postId: String(postId) } });
+  }
+}
+
+/**
+ * Entry point grouping the typed resource clients
+ * Usage: `await apiClient.posts.get(1)`
+ */
+export class ApiClient {
+  readonly posts: PostsClient;
+  readonly users: UsersClient;
+  readonly comments: CommentsClient;
+
+  constructor(apiHelper: ApiHelper) {
+    this.posts = new PostsClient(apiHelper);
+    this.users = new UsersClient(apiHelper);
+    this.comments = new CommentsClient(apiHelper);
+  }
+}
+
+const shouldValidate = (result: ApiResponse, options?: ResourceRequestOptions): boolean =>
+  options?.validate !== false && result.status >= 200 && result.status < 300;
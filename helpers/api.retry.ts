@@ -0,0 +1,154 @@
+// Retry configuration
+const RETRY_CONFIG = {
+  IDEMPOTENT_METHODS: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+} as const;
+
+// Type definitions for retry handling
+export interface RetryPolicy {
+  /** Total number of attempts, including the first one */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay in milliseconds */
+  maxDelayMs: number;
+  /** Multiplier applied to the delay after every attempt */
+  backoffFactor: number;
+  /** Randomisation applied to the backoff delay */
+  jitter: 'none' | 'full' | 'equal';
+  /** HTTP statuses that trigger a retry */
+  retryOnStatuses: number[];
+  /** Transport error codes or patterns that trigger a retry */
+  retryOnErrors: (string | RegExp)[];
+  /** Allow retrying non-idempotent verbs such as POST and PATCH */
+  retryNonIdempotent: boolean;
+  /** Honour the Retry-After header on 429/503 responses */
+  respectRetryAfter: boolean;
+  /** Upper bound for a delay taken from Retry-After in milliseconds */
+  maxRetryAfterMs: number;
+}
+
+export interface ApiAttempt {
+  /** One-based attempt number */
+  attempt: number;
+  /** HTTP status received, if the request reached the server */
+  status?: number;
+  /** Transport error message, if the request failed before a response */
+  error?: string;
+  /** Time spent on this attempt in milliseconds */
+  durationMs: number;
+  /** Delay applied before the next attempt, if one was scheduled */
+  delayMs?: number;
+}
+
+/**
+ * Retries are opt-in: one attempt unless maxAttempts is raised. Timeouts are not
+ * retried by default either, since a hung endpoint would multiply the request timeout;
+ * add /Timeout \d+ms exceeded/ to retryOnErrors to retry them.
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  baseDelayMs: 200,
+  maxDelayMs: 2000,
+  backoffFactor: 2,
+  jitter: 'full',
+  retryOnStatuses: [408, 429, 500, 502, 503, 504],
+  retryOnErrors: ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'socket hang up'],
+  retryNonIdempotent: false,
+  respectRetryAfter: true,
+  maxRetryAfterMs: 10000,
+};
+
+/**
+ * Merge a base retry policy with per-request overrides
+ * @param base - Policy configured on the helper
+ * @param override - Per-request overrides, or false to disable retries
+ * @returns Effective retry policy
+ */
+export function resolveRetryPolicy(base: RetryPolicy, override?: Partial<RetryPolicy> | false): RetryPolicy {
+  if (override === false) {
+    return { ...base, maxAttempts: 1 };
+  }
+  return { ...base, ...override };
+}
+
+/**
+ * Check whether a verb may be retried under the given policy
+ * @param policy - Effective retry policy
+ * @param method - HTTP method
+ */
+export function canRetryMethod(policy: RetryPolicy, method: string): boolean {
+  return policy.retryNonIdempotent
+    || (RETRY_CONFIG.IDEMPOTENT_METHODS as readonly string[]).includes(method.toUpperCase());
+}
+
+/**
+ * Check whether a response status should be retried
+ * @param policy - Effective retry policy
+ * @param status - HTTP status code
+ */
+export function isRetryableStatus(policy: RetryPolicy, status: number): boolean {
+  return policy.retryOnStatuses.includes(status);
+}
+
+/**
+ * Check whether a transport error should be retried
+ * @param policy - Effective retry policy
+ * @param error - Error thrown by the request context
+ */
+export function isRetryableError(policy: RetryPolicy, error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return policy.retryOnErrors.some(pattern =>
+    typeof pattern === 'string' ? message.includes(pattern) : pattern.test(message)
+  );
+}
+
+/**
+ * Parse a Retry-After header value (delta seconds or HTTP date)
+ * @param value - Raw header value
+ * @returns Delay in milliseconds, or undefined if the value is not usable
+ */
+export function parseRetryAfter(value?: string): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value.trim());
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Compute the delay before the next attempt
+ * @param policy - Effective retry policy
+ * @param attempt - One-based number of the attempt that just failed
+ * @param retryAfter - Retry-After header of the failed response, if any
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(policy: RetryPolicy, attempt: number, retryAfter?: string): number {
+  if (policy.respectRetryAfter) {
+    const serverDelay = parseRetryAfter(retryAfter);
+    if (serverDelay !== undefined) {
+      return Math.min(serverDelay, policy.maxRetryAfterMs);
+    }
+  }
+
+  const exponential = Math.min(
+    policy.baseDelayMs * Math.pow(policy.backoffFactor, attempt - 1),
+    policy.maxDelayMs
+  );
+
+  switch (policy.jitter) {
+    case 'full':
+      return Math.round(Math.random() * exponential);
+    case 'equal':
+      return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+    default:
+      return exponential;
+  }
+}
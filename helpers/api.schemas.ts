@@ -0,0 +1,78 @@
+/**
+ * JSON Schemas (draft 2020-12) for the JSONPlaceholder entities
+ * Registered by default on SchemaValidator under the keys 'post', 'user' and 'comment'
+ */
+
+const EMAIL_PATTERN = '^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$';
+
+export const PostSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'https://schemas.local/post.json',
+  title: 'Post',
+  type: 'object',
+  required: ['id', 'title', 'body', 'userId'],
+  properties: {
+    id: { type: 'integer', exclusiveMinimum: 0 },
+    title: { type: 'string', minLength: 1 },
+    body: { type: 'string' },
+    userId: { type: 'integer', exclusiveMinimum: 0 },
+  },
+} as const;
+
+export const UserSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'https://schemas.local/user.json',
+  title: 'User',
+  type: 'object',
+  required: ['id', 'name', 'email', 'address'],
+  properties: {
+    id: { type: 'integer', exclusiveMinimum: 0 },
+    name: { type: 'string', minLength: 1 },
+    username: { type: 'string' },
+    email: { type: 'string', pattern: EMAIL_PATTERN },
+    address: {
+      type: 'object',
+      required: ['street', 'city', 'zipcode'],
+      properties: {
+        street: { type: 'string' },
+        suite: { type: 'string' },
+        city: { type: 'string' },
+        zipcode: { type: 'string' },
+        geo: {
+          type: 'object',
+          required: ['lat', 'lng'],
+          properties: {
+            lat: { type: 'string', pattern: '^-?\\d+(\\.\\d+)?$' },
+            lng: { type: 'string', pattern: '^-?\\d+(\\.\\d+)?$' },
+          },
+        },
+      },
+    },
+    phone: { type: 'string' },
+    website: { type: 'string' },
+    company: {
+      type: 'object',
+      required: ['name', 'catchPhrase', 'bs'],
+      properties: {
+        name: { type: 'string' },
+        catchPhrase: { type: 'string' },
+        bs: { type: 'string' },
+      },
+    },
+  },
+} as const;
+
+export const CommentSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'https://schemas.local/comment.json',
+  title: 'Comment',
+  type: 'object',
+  required: ['id', 'name', 'email', 'body', 'postId'],
+  properties: {
+    id: { type: 'integer', exclusiveMinimum: 0 },
+    name: { type: 'string' },
+    email: { type: 'string', pattern: EMAIL_PATTERN },
+    body: { type: 'string' },
+    postId: { type: 'integer', exclusiveMinimum: 0 },
+  },
+} as const;
@@ -1,4 +1,13 @@
-import { expect } from '@playwright/test';
+import { expect, test } from '@playwright/test';
+import { SchemaRef, SchemaValidator } from './schema.validator';
+import { SeededRandom } from './random.helper';
+import { PageResult } from './api.pagination';
+
+// Array validation configuration
+const ARRAY_VALIDATION_CONFIG = {
+  DEFAULT_SAMPLE_SIZE: 10,
+  MAX_REPORTED_FAILURES: 20,
+} as const;
 
 // Type definitions for API entities
 export interface Post {
@@ -38,95 +47,129 @@ export interface Comment {
   postId: number;
 }
 
+/**
+ * Which items validateArrayResponse checks
+ * - all: every item
+ * - sample: a seeded random sample of `sampleSize` items
+ * - first / last / first-last: the boundary items only
+ */
+export type ArrayValidationStrategy = 'all' | 'sample' | 'first' | 'last' | 'first-last';
+
+export interface ArrayValidationOptions {
+  strategy?: ArrayValidationStrategy;
+  /** Number of items drawn by the 'sample' strategy */
+  sampleSize?: number;
+  /** Seed for the 'sample' strategy; defaults to API_SAMPLE_SEED, else a random seed that is reported */
+  seed?: number;
+  /** Stop validating once this much time has elapsed; skipped items are reported, not failed */
+  timeBudgetMs?: number;
+}
+
+export interface ArrayItemFailure {
+  index: number;
+  reason: string;
+}
+
+export interface PageContinuityOptions<T> {
+  /** Identity of an item, defaults to its id */
+  key?: (item: T) => string | number;
+  /** Keys are consecutive integers, so any missing number is a gap */
+  sequential?: boolean;
+}
+
 /**
  * Validator class for API response structures
  * Provides validation methods for common API entities
  */
 export class ApiValidators {
   /**
-   * Validate post object structure
+   * Validate post object structure against the 'post' schema
    * @param post - Post object to validate
    */
   static validatePostStructure(post: any): asserts post is Post {
-    const requiredFields: (keyof Post)[] = ['id', 'title', 'body', 'userId'];
-    
-    requiredFields.forEach(field => {
-      expect(post, `Post should have ${field} property`).toHaveProperty(field);
-    });
-    
-    expect(typeof post.id, 'Post.id should be a number').toBe('number');
-    expect(typeof post.title, 'Post.title should be a string').toBe('string');
-    expect(typeof post.body, 'Post.body should be a string').toBe('string');
-    expect(typeof post.userId, 'Post.userId should be a number').toBe('number');
-    
-    expect(post.id, 'Post.id should be positive').toBeGreaterThan(0);
-    expect(post.title.length, 'Post.title should not be empty').toBeGreaterThan(0);
-    expect(post.userId, 'Post.userId should be positive').toBeGreaterThan(0);
+    SchemaValidator.default.assertValid('post', post, 'Post');
   }
 
   /**
-   * Validate user object structure
+   * Validate user object structure (including address.geo and company) against the 'user' schema
    * @param user - User object to validate
    */
   static validateUserStructure(user: any): asserts user is User {
-    const requiredFields = ['id', 'name', 'email', 'address'];
-    
-    requiredFields.forEach(field => {
-      expect(user, `User should have ${field} property`).toHaveProperty(field);
-    });
-    
-    expect(typeof user.id, 'User.id should be a number').toBe('number');
-    expect(typeof user.name, 'User.name should be a string').toBe('string');
-    expect(typeof user.email, 'User.email should be a string').toBe('string');
-    expect(typeof user.address, 'User.address should be an object').toBe('object');
-    
-    // Validate email format
-    expect(user.email, 'User.email should be valid').toMatch(/^[^\s@]+@[^\s@]+\.[^\s@]+$/);
-    
-    // Validate address structure
-    expect(user.address, 'User.address should have street').toHaveProperty('street');
-    expect(user.address, 'User.address should have city').toHaveProperty('city');
-    expect(user.address, 'User.address should have zipcode').toHaveProperty('zipcode');
+    SchemaValidator.default.assertValid('user', user, 'User');
   }
 
   /**
-   * Validate comment object structure
+   * Validate comment object structure against the 'comment' schema
    * @param comment - Comment object to validate
    */
   static validateCommentStructure(comment: any): asserts comment is Comment {
-    const requiredFields: (keyof Comment)[] = ['id', 'name', 'email', 'body', 'postId'];
-    
-    requiredFields.forEach(field => {
-      expect(comment, `Comment should have ${field} property`).toHaveProperty(field);
-    });
-    
-    expect(typeof comment.id, 'Comment.id should be a number').toBe('number');
-    expect(typeof comment.name, 'Comment.name should be a string').toBe('string');
-    expect(typeof comment.email, 'Comment.email should be a string').toBe('string');
-    expect(typeof comment.body, 'Comment.body should be a string').toBe('string');
-    expect(typeof comment.postId, 'Comment.postId should be a number').toBe('number');
-    
-    expect(comment.email, 'Comment.email should be valid').toMatch(/^[^\s@]+@[^\s@]+\.[^\s@]+$/);
+    SchemaValidator.default.assertValid('comment', comment, 'Comment');
+  }
+
+  /**
+   * Validate any payload against a registered or inline JSON Schema
+   * @param data - Payload to validate
+   * @param schema - Registered schema name or an inline schema
+   * @param label - Entity label used in the failure message
+   */
+  static validateSchema(data: any, schema: SchemaRef, label?: string): void {
+    SchemaValidator.default.assertValid(schema, data, label);
   }
 
   /**
    * Validate array response
+   * Every selected item is checked and all failures are reported together with their indices.
    * @param data - Array data to validate
    * @param validator - Validation function for each item
    * @param minLength - Minimum expected array length
+   * @param options - Item selection strategy, sample seed and time budget
    */
   static validateArrayResponse<T>(
     data: any, 
     validator: (item: T) => void, 
-    minLength: number = 1
+    minLength: number = 1,
+    options: ArrayValidationOptions = {}
   ): asserts data is T[] {
     expect(Array.isArray(data), 'Response should be an array').toBe(true);
     expect(data.length, `Array should have at least ${minLength} items`).toBeGreaterThanOrEqual(minLength);
     
-    if (data.length > 0 && validator) {
-      // Validate first item as a sample
-      validator(data[0]);
+    if (data.length === 0 || !validator) return;
+
+    const strategy = options.strategy || 'all';
+    const random = strategy === 'sample'
+      ? new SeededRandom(options.seed ?? (Number(process.env.API_SAMPLE_SEED) || undefined))
+      : undefined;
+    const indices = selectIndices(data.length, strategy, options.sampleSize ?? ARRAY_VALIDATION_CONFIG.DEFAULT_SAMPLE_SIZE, random);
+    const deadline = options.timeBudgetMs === undefined ? Infinity : Date.now() + options.timeBudgetMs;
+    const failures: ArrayItemFailure[] = [];
+    let checked = 0;
+
+    for (const index of indices) {
+      if (checked > 0 && Date.now() >= deadline) break;
+      try {
+        validator(data[index]);
+      } catch (error) {
+        failures.push({ index, reason: describeFailure(error) });
+      }
+      checked++;
+    }
+
+    const scope = random ? `strategy: ${strategy}, seed: ${random.seed}` : `strategy: ${strategy}`;
+    if (random) {
+      annotate('array-sample-seed', `${random.seed} (rerun with API_SAMPLE_SEED=${random.seed})`);
+    }
+    if (checked < indices.length) {
+      annotate('array-validation-budget', `Validated ${checked} of ${indices.length} items within ${options.timeBudgetMs}ms (${scope})`);
+    }
+
+    const reported = failures.slice(0, ARRAY_VALIDATION_CONFIG.MAX_REPORTED_FAILURES).map(f => `[${f.index}] ${f.reason}`);
+    if (failures.length > reported.length) {
+      reported.push(`... and ${failures.length - reported.length} more`);
     }
+    expect(
+      failures.map(f => f.index),
+      `${failures.length} of ${checked} validated items failed (${scope}):\n  ${reported.join('\n  ')}`
+    ).toEqual([]);
   }
 
   /**
@@ -214,4 +257,90 @@ export class ApiValidators {
       expect(Array.isArray(data.data), 'Pagination data should be an array').toBe(true);
     }
   }
+
+  /**
+   * Validate that paginated results have no duplicates and no gaps across pages
+   * Gaps are empty pages followed by more items, a shortfall against the announced
+   * total, or missing keys when `sequential` is set.
+   * @param pages - Pages collected from apiHelper.paginate(...).collectPages()
+   * @param options - Item identity and whether keys are consecutive
+   */
+  static validatePageContinuity<T>(pages: PageResult<T>[], options: PageContinuityOptions<T> = {}): void {
+    const keyOf = options.key || ((item: T) => (item as { id: string | number }).id);
+    const firstSeen = new Map<string | number, number>();
+    const problems: string[] = [];
+
+    pages.forEach((page, index) => {
+      if (page.items.length === 0 && pages.slice(index + 1).some(later => later.items.length > 0)) {
+        problems.push(`page ${page.number} is empty but later pages have items`);
+      }
+      page.items.forEach(item => {
+        const key = keyOf(item);
+        const seenOn = firstSeen.get(key);
+        if (seenOn !== undefined) {
+          problems.push(`duplicate ${key} on page ${page.number} (first seen on page ${seenOn})`);
+        } else {
+          firstSeen.set(key, page.number);
+        }
+      });
+    });
+
+    const total = pages.find(page => page.total !== undefined)?.total;
+    if (total !== undefined && firstSeen.size !== total) {
+      problems.push(`collected ${firstSeen.size} unique items but the server announced ${total}`);
+    }
+
+    if (options.sequential) {
+      const keys = [...firstSeen.keys()].map(Number).sort((a, b) => a - b);
+      for (let i = 1; i < keys.length; i++) {
+        const [from, to] = [keys[i - 1] + 1, keys[i] - 1];
+        if (from <= to) {
+          problems.push(`gap: ${from === to ? from : `${from}..${to}`} missing`);
+        }
+      }
+    }
+
+    expect(problems, `Pages should have no duplicates or gaps:\n  ${problems.join('\n  ')}`).toEqual([]);
+  }
+}
+
+/**
+ * Indices of the items a strategy validates, in ascending order
+ */
+function selectIndices(length: number, strategy: ArrayValidationStrategy, sampleSize: number, random?: SeededRandom): number[] {
+  switch (strategy) {
+    case 'first':
+      return [0];
+    case 'last':
+      return [length - 1];
+    case 'first-last':
+      return length > 1 ? [0, length - 1] : [0];
+    case 'sample':
+      return (random || new SeededRandom()).sampleIndices(length, sampleSize);
+    default:
+      return Array.from({ length }, (_, i) => i);
+  }
+}
+
+/**
+ * First paragraph of an assertion error, without terminal colors, indented for nesting
+ */
+function describeFailure(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message
+    .replace(/\u001b\[[0-9;]*m/g, '')
+    .split('\n\n')[0]
+    .trim()
+    .replace(/\n/g, '\n      ');
+}
+
+/**
+ * Attach an annotation to the running test; a no-op outside of one
+ */
+function annotate(type: string, description: string): void {
+  try {
+    test.info().annotations.push({ type, description });
+  } catch {
+    // Not inside a running test
+  }
 }
@@ -0,0 +1,198 @@
+import { Cookie, Page, expect } from '@playwright/test';
+
+// Cookie configuration
+const COOKIE_CONFIG = {
+  DEFAULT_TIMEOUT: 5000,
+  POLL_INTERVALS: [50, 100, 250],
+  /** Playwright reports session cookies with expires = -1 */
+  SESSION_EXPIRES: -1,
+} as const;
+
+// Type definitions for cookie handling
+export type SameSite = 'Strict' | 'Lax' | 'None';
+
+export interface CookieSeed {
+  name: string;
+  value: string;
+  /** Defaults to the page URL when neither url nor domain is given */
+  url?: string;
+  domain?: string;
+  path?: string;
+  /** Absolute expiry as a Unix timestamp in seconds */
+  expires?: number;
+  /** Relative expiry in seconds, converted to expires */
+  maxAgeSeconds?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: SameSite;
+}
+
+export interface CookieExpectation {
+  value?: string | RegExp;
+  domain?: string;
+  path?: string;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: SameSite;
+  /** true: must be a session cookie; false: must have an expiry */
+  session?: boolean;
+  /** Must expire no later than this many seconds from now */
+  expiresWithinSeconds?: number;
+  /** Must remain valid for at least this many seconds from now */
+  expiresAfterSeconds?: number;
+}
+
+/**
+ * Helper class for inspecting, seeding and asserting cookies of the page's browser context
+ * Works on the context cookie jar, so HttpOnly cookies are visible too.
+ */
+export class CookieHelper {
+  private readonly page: Page;
+  private readonly timeout: number;
+
+  constructor(page: Page, timeout: number = COOKIE_CONFIG.DEFAULT_TIMEOUT) {
+    this.page = page;
+    this.timeout = timeout;
+  }
+
+  /**
+   * Get cookies of the context
+   * @param urls - Only cookies sent to these URLs; all cookies when omitted
+   */
+  async getAll(urls?: string | string[]): Promise<Cookie[]> {
+    return await this.page.context().cookies(urls);
+  }
+
+  /**
+   * Get a cookie by name
+   * @param name - Cookie name
+   * @param url - Only consider cookies sent to this URL
+   * @returns The cookie, or undefined when absent
+   */
+  async get(name: string, url?: string): Promise<Cookie | undefined> {
+    return (await this.getAll(url)).find(cookie => cookie.name === name);
+  }
+
+  /**
+   * Add cookies to the context
+   * @param cookies - Cookies to add; without url or domain they are scoped to the page URL
+   */
+  async seed(cookies: CookieSeed[]): Promise<void> {
+    await this.page.context().addCookies(cookies.map(({ maxAgeSeconds, ...cookie }) => {
+      const expires = maxAgeSeconds === undefined ? cookie.expires : Math.floor(Date.now() / 1000) + maxAgeSeconds;
+      if (cookie.domain) {
+        return { ...cookie, expires, path: cookie.path ?? '/' };
+      }
+      const target = cookie.url ?? this.page.url();
+      if (!/^https?:/.test(target)) {
+        throw new Error(`Cookie "${cookie.name}" needs a url or domain because the page is not on an http(s) URL (${target})`);
+      }
+      if (cookie.path === undefined) {
+        return { ...cookie, expires, url: target };
+      }
+      // addCookies() rejects url together with path, so spell out domain, path and secure instead
+      const { url: _url, ...rest } = cookie;
+      const { hostname, protocol } = new URL(target);
+      return { ...rest, expires, domain: hostname, secure: cookie.secure ?? protocol === 'https:' };
+    }));
+  }
+
+  /**
+   * Remove cookies by name
+   * @param name - Cookie name
+   */
+  async remove(name: string): Promise<void> {
+    await this.page.context().clearCookies({ name });
+  }
+
+  /**
+   * Remove every cookie of the context
+   */
+  async clear(): Promise<void> {
+    await this.page.context().clearCookies();
+  }
+
+  /**
+   * Assert a cookie exists with the expected value and attributes
+   * Every mismatching attribute is reported at once.
+   * @param name - Cookie name
+   * @param expected - Value and attributes to check
+   * @returns The cookie
+   */
+  async expectCookie(name: string, expected: CookieExpectation = {}): Promise<Cookie> {
+    const cookie = await this.get(name);
+    expect(cookie, `Cookie "${name}" should exist; present: ${(await this.getAll()).map(c => c.name).join(', ') || 'none'}`).toBeDefined();
+
+    const problems = cookieProblems(cookie as Cookie, expected);
+    expect(problems, `Cookie "${name}" should match the expected attributes (${describeCookie(cookie as Cookie)})`).toEqual([]);
+    return cookie as Cookie;
+  }
+
+  /**
+   * Assert no cookie with the given name exists
+   * @param name - Cookie name
+   */
+  async expectNoCookie(name: string): Promise<void> {
+    const cookie = await this.get(name);
+    expect(cookie && describeCookie(cookie), `Cookie "${name}" should not exist`).toBeUndefined();
+  }
+
+  /**
+   * Wait until a cookie exists and optionally satisfies a predicate
+   * @param name - Cookie name
+   * @param predicate - Additional check on the cookie
+   * @returns The matching cookie
+   */
+  async waitForCookie(name: string, predicate: (cookie: Cookie) => boolean = () => true): Promise<Cookie> {
+    let matched: Cookie | undefined;
+    await expect.poll(async () => {
+      const cookie = await this.get(name);
+      matched = cookie && predicate(cookie) ? cookie : undefined;
+      return matched !== undefined;
+    }, {
+      message: `Cookie "${name}" should be set`,
+      timeout: this.timeout,
+      intervals: [...COOKIE_CONFIG.POLL_INTERVALS],
+    }).toBe(true);
+    return matched as Cookie;
+  }
+}
+
+/**
+ * Compare a cookie against an expectation
+ * @returns One message per mismatching attribute
+ */
+function cookieProblems(cookie: Cookie, expected: CookieExpectation): string[] {
+  const problems: string[] = [];
+  const now = Date.now() / 1000;
+  const isSession = cookie.expires === COOKIE_CONFIG.SESSION_EXPIRES;
+  const mismatch = (attribute: string, wanted: unknown, actual: unknown) => {
+    if (wanted !== undefined && wanted !== actual) problems.push(`${attribute}: expected ${wanted}, received ${actual}`);
+  };
+
+  if (expected.value !== undefined) {
+    const matches = typeof expected.value === 'string' ? cookie.value === expected.value : expected.value.test(cookie.value);
+    if (!matches) problems.push(`value: expected ${expected.value}, received ${cookie.value}`);
+  }
+  mismatch('domain', expected.domain, cookie.domain);
+  mismatch('path', expected.path, cookie.path);
+  mismatch('httpOnly', expected.httpOnly, cookie.httpOnly);
+  mismatch('secure', expected.secure, cookie.secure);
+  mismatch('sameSite', expected.sameSite, cookie.sameSite);
+  mismatch('session', expected.session, isSession);
+  if (expected.expiresWithinSeconds !== undefined && (isSession || cookie.expires - now > expected.expiresWithinSeconds)) {
+    problems.push(`expires: expected within ${expected.expiresWithinSeconds}s, received ${isSession ? 'session' : `${Math.round(cookie.expires - now)}s`}`);
+  }
+  if (expected.expiresAfterSeconds !== undefined && !isSession && cookie.expires - now < expected.expiresAfterSeconds) {
+    problems.push(`expires: expected after ${expected.expiresAfterSeconds}s, received ${Math.round(cookie.expires - now)}s`);
+  }
+  return problems;
+}
+
+/**
+ * One-line description of a cookie's attributes, value omitted
+ */
+function describeCookie(cookie: Cookie): string {
+  const expiry = cookie.expires === COOKIE_CONFIG.SESSION_EXPIRES ? 'session' : new Date(cookie.expires * 1000).toISOString();
+  return `${cookie.domain}${cookie.path}; HttpOnly=${cookie.httpOnly}; Secure=${cookie.secure}; SameSite=${cookie.sameSite}; expires=${expiry}`;
+}
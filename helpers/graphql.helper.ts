@@ -0,0 +1,214 @@
+import { createHash } from 'crypto';
+import { expect } from '@playwright/test';
+import { ApiHelper, ApiResponse, RequestOptions } from './api.helper';
+
+// GraphQL configuration
+const GRAPHQL_CONFIG = {
+  DEFAULT_ENDPOINT: '/graphql',
+  PERSISTED_QUERY_VERSION: 1,
+  PERSISTED_QUERY_NOT_FOUND: 'PERSISTED_QUERY_NOT_FOUND',
+} as const;
+
+// Type definitions for GraphQL operations
+export interface GraphQLError {
+  message: string;
+  path?: (string | number)[];
+  locations?: { line: number; column: number }[];
+  extensions?: Record<string, any>;
+}
+
+export interface GraphQLResult<TData = any> {
+  /** `data` as returned by the server; null when execution failed before producing data */
+  data: TData | null;
+  /** `errors` array, empty when the server returned none */
+  errors: GraphQLError[];
+  extensions?: Record<string, any>;
+  status: number;
+  response: ApiResponse;
+}
+
+export interface GraphQLRequestOptions extends RequestOptions {
+  operationName?: string;
+  /** Send the sha256 hash first (automatic persisted queries); overrides the helper default */
+  persisted?: boolean;
+}
+
+export interface GraphQLHelperOptions {
+  endpoint?: string;
+  /** Use automatic persisted queries for every operation */
+  persistedQueries?: boolean;
+}
+
+export interface ExpectedGraphQLError {
+  message?: string | RegExp;
+  path?: (string | number)[];
+  /** Matched against extensions.code */
+  code?: string;
+}
+
+interface GraphQLBody {
+  query?: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * GraphQL client on top of ApiHelper
+ * Requests go through the same transport, auth provider, interceptors and retry policy.
+ * Queries are retried like idempotent requests; mutations are not.
+ */
+export class GraphQLHelper {
+  private readonly apiHelper: ApiHelper;
+  private readonly endpoint: string;
+  private readonly persistedQueries: boolean;
+
+  constructor(apiHelper: ApiHelper, options?: GraphQLHelperOptions) {
+    this.apiHelper = apiHelper;
+    this.endpoint = options?.endpoint ?? GRAPHQL_CONFIG.DEFAULT_ENDPOINT;
+    this.persistedQueries = options?.persistedQueries ?? false;
+  }
+
+  /**
+   * Run a query
+   * @param document - GraphQL query document
+   * @param variables - Operation variables
+   * @param options - Operation name, persisted-query switch and request options
+   * @returns Result with `data` and `errors` kept apart
+   */
+  async query<TData = any, TVariables extends Record<string, unknown> = Record<string, unknown>>(
+    document: string,
+    variables?: TVariables,
+    options?: GraphQLRequestOptions
+  ): Promise<GraphQLResult<TData>> {
+    const retry = options?.retry === false ? false : { retryNonIdempotent: true, ...options?.retry };
+    return this.execute<TData>(document, variables, { ...options, retry });
+  }
+
+  /**
+   * Run a mutation
+   * @param document - GraphQL mutation document
+   * @param variables - Operation variables
+   * @param options - Operation name, persisted-query switch and request options
+   * @returns Result with `data` and `errors` kept apart
+   */
+  async mutate<TData = any, TVariables extends Record<string, unknown> = Record<string, unknown>>(
+    document: string,
+    variables?: TVariables,
+    options?: GraphQLRequestOptions
+  ): Promise<GraphQLResult<TData>> {
+    return this.execute<TData>(document, variables, options);
+  }
+
+  /**
+   * sha256 hash identifying a document for persisted queries
+   * @param document - GraphQL document
+   */
+  static hash(document: string): string {
+    return createHash('sha256').update(document).digest('hex');
+  }
+
+  /**
+   * Assert the operation returned data and no errors
+   * @param result - Operation result
+   * @returns The data, narrowed to non-null
+   */
+  static assertNoErrors<TData>(result: GraphQLResult<TData>): TData {
+    expect(result.errors.map(formatError), `GraphQL operation should not return errors (status ${result.status})`).toEqual([]);
+    expect(result.data, 'GraphQL operation should return data').not.toBeNull();
+    return result.data as TData;
+  }
+
+  /**
+   * Assert the operation returned errors, optionally matching each expected one
+   * @param result - Operation result
+   * @param expected - Errors that must be present (by message, path and/or extensions.code)
+   */
+  static assertErrors(result: GraphQLResult, expected: ExpectedGraphQLError[] = []): void {
+    expect(result.errors.length, 'GraphQL operation should return errors').toBeGreaterThan(0);
+
+    const missing = expected.filter(wanted => !result.errors.some(error => matchesError(error, wanted)));
+    expect(
+      missing.map(describeExpectedError),
+      `GraphQL errors should include every expected error; received:\n  ${result.errors.map(formatError).join('\n  ')}`
+    ).toEqual([]);
+  }
+
+  /**
+   * Send an operation, negotiating a persisted query when enabled
+   */
+  private async execute<TData>(
+    document: string,
+    variables: Record<string, unknown> | undefined,
+    options?: GraphQLRequestOptions
+  ): Promise<GraphQLResult<TData>> {
+    const { operationName, persisted, ...requestOptions } = options || {};
+    const body: GraphQLBody = { query: document, variables, operationName };
+
+    if (!(persisted ?? this.persistedQueries)) {
+      return this.send<TData>(body, requestOptions);
+    }
+
+    const extensions = {
+      persistedQuery: { version: GRAPHQL_CONFIG.PERSISTED_QUERY_VERSION, sha256Hash: GraphQLHelper.hash(document) },
+    };
+    const hashOnly = await this.send<TData>({ variables, operationName, extensions }, requestOptions);
+    const notFound = hashOnly.errors.some(error =>
+      error.extensions?.code === GRAPHQL_CONFIG.PERSISTED_QUERY_NOT_FOUND || error.message === 'PersistedQueryNotFound'
+    );
+    return notFound ? this.send<TData>({ ...body, extensions }, requestOptions) : hashOnly;
+  }
+
+  /**
+   * POST one GraphQL request and split the body into data and errors
+   */
+  private async send<TData>(body: GraphQLBody, options: RequestOptions): Promise<GraphQLResult<TData>> {
+    const response = await this.apiHelper.post(this.endpoint, body, options);
+    const payload = response.data;
+
+    if (!payload || typeof payload !== 'object' || !('data' in payload || 'errors' in payload)) {
+      throw new Error(
+        `${this.endpoint} did not return a GraphQL result (status ${response.status}): ${String(JSON.stringify(payload)).slice(0, 200)}`
+      );
+    }
+
+    return {
+      data: payload.data ?? null,
+      errors: payload.errors ?? [],
+      extensions: payload.extensions,
+      status: response.status,
+      response,
+    };
+  }
+}
+
+/**
+ * One-line description of a GraphQL error
+ */
+function formatError(error: GraphQLError): string {
+  const path = error.path ? ` at ${error.path.join('.')}` : '';
+  const code = error.extensions?.code ? ` [${error.extensions.code}]` : '';
+  return `${error.message}${path}${code}`;
+}
+
+/**
+ * Check a received error against an expected one
+ */
+function matchesError(error: GraphQLError, expected: ExpectedGraphQLError): boolean {
+  const messageMatches = expected.message === undefined
+    || (typeof expected.message === 'string' ? error.message.includes(expected.message) : expected.message.test(error.message));
+  const pathMatches = expected.path === undefined || JSON.stringify(error.path) === JSON.stringify(expected.path);
+  const codeMatches = expected.code === undefined || error.extensions?.code === expected.code;
+  return messageMatches && pathMatches && codeMatches;
+}
+
+/**
+ * One-line description of an expected error
+ */
+function describeExpectedError(expected: ExpectedGraphQLError): string {
+  return [
+    expected.message !== undefined ? `message ${expected.message}` : '',
+    expected.path ? `path ${expected.path.join('.')}` : '',
+    expected.code ? `code ${expected.code}` : '',
+  ].filter(Boolean).join(', ');
+}
@@ -0,0 +1,273 @@
+import { Page, expect } from '@playwright/test';
+
+// IndexedDB configuration
+const INDEXED_DB_CONFIG = {
+  DEFAULT_TIMEOUT: 5000,
+  POLL_INTERVALS: [50, 100, 250],
+} as const;
+
+// Type definitions for IndexedDB inspection
+export type IdbKey = string | number | Date | (string | number | Date)[];
+
+export interface DatabaseInfo {
+  name: string;
+  version: number;
+}
+
+export interface ObjectStoreInfo {
+  name: string;
+  keyPath: string | string[] | null;
+  autoIncrement: boolean;
+  indexes: { name: string; keyPath: string | string[]; unique: boolean; multiEntry: boolean }[];
+  count: number;
+}
+
+export interface IdbRecord<T> {
+  key: IdbKey;
+  value: T;
+}
+
+type StoreOperation = 'records' | 'get' | 'count' | 'clear';
+
+export interface SeedOptions {
+  /** keyPath used when the store has to be created */
+  keyPath?: string | string[];
+  /** autoIncrement used when the store has to be created */
+  autoIncrement?: boolean;
+  /** Clear the store before writing the records */
+  replace?: boolean;
+}
+
+/**
+ * Helper class for inspecting and seeding IndexedDB in the page's origin
+ * Records cross the page boundary through Playwright serialization, so values
+ * must be serializable (plain objects, arrays, dates, primitives).
+ */
+export class IndexedDbHelper {
+  private readonly page: Page;
+  private readonly timeout: number;
+
+  constructor(page: Page, timeout: number = INDEXED_DB_CONFIG.DEFAULT_TIMEOUT) {
+    this.page = page;
+    this.timeout = timeout;
+  }
+
+  /**
+   * List the databases of the current origin
+   */
+  async listDatabases(): Promise<DatabaseInfo[]> {
+    return await this.page.evaluate(async () => {
+      const databases = await indexedDB.databases();
+      return databases.map(db => ({ name: db.name ?? '', version: db.version ?? 0 }));
+    });
+  }
+
+  /**
+   * Describe the object stores of a database
+   * @param database - Database name
+   * @returns Stores with their key path, indexes and record count
+   */
+  async listObjectStores(database: string): Promise<ObjectStoreInfo[]> {
+    return await this.page.evaluate(async (name) => {
+      const request = (operation: IDBRequest) => new Promise<any>((resolve, reject) => {
+        operation.onsuccess = () => resolve(operation.result);
+        operation.onerror = () => reject(operation.error);
+      });
+      // open() would silently create a missing database
+      const known = (await indexedDB.databases()).some(db => db.name === name);
+      if (!known) throw new Error(`IndexedDB database "${name}" does not exist`);
+
+      const db: IDBDatabase = await request(indexedDB.open(name));
+      try {
+        const storeNames = Array.from(db.objectStoreNames);
+        if (storeNames.length === 0) return [];
+        const transaction = db.transaction(storeNames, 'readonly');
+        return await Promise.all(storeNames.map(async storeName => {
+          const store = transaction.objectStore(storeName);
+          return {
+            name: storeName,
+            keyPath: store.keyPath as string | string[] | null,
+            autoIncrement: store.autoIncrement,
+            indexes: Array.from(store.indexNames).map(indexName => {
+              const index = store.index(indexName);
+              return { name: index.name, keyPath: index.keyPath as string | string[], unique: index.unique, multiEntry: index.multiEntry };
+            }),
+            count: await request(store.count()) as number,
+          };
+        }));
+      } finally {
+        db.close();
+      }
+    }, database);
+  }
+
+  /**
+   * Read every record of a store with its key
+   * @param database - Database name
+   * @param store - Object store name
+   */
+  async getRecords<T = any>(database: string, store: string): Promise<IdbRecord<T>[]> {
+    return await this.runInStore(database, store, 'records');
+  }
+
+  /**
+   * Read every value of a store
+   * @param database - Database name
+   * @param store - Object store name
+   */
+  async getAll<T = any>(database: string, store: string): Promise<T[]> {
+    return (await this.getRecords<T>(database, store)).map(record => record.value);
+  }
+
+  /**
+   * Read a single record by key
+   * @param database - Database name
+   * @param store - Object store name
+   * @param key - Record key
+   * @returns The value, or undefined when no record has that key
+   */
+  async get<T = any>(database: string, store: string, key: IdbKey): Promise<T | undefined> {
+    return await this.runInStore(database, store, 'get', key);
+  }
+
+  /**
+   * Count the records of a store
+   * @param database - Database name
+   * @param store - Object store name
+   */
+  async count(database: string, store: string): Promise<number> {
+    return await this.runInStore(database, store, 'count');
+  }
+
+  /**
+   * Write records, creating the database and store when they do not exist yet
+   * @param database - Database name
+   * @param store - Object store name
+   * @param records - Values to put; stores without a keyPath need `{ key, value }` records
+   * @param options - Store creation and replace options
+   */
+  async seed<T = any>(database: string, store: string, records: (T | IdbRecord<T>)[], options?: SeedOptions): Promise<void> {
+    await this.page.evaluate(async ({ name, storeName, items, keyPath, autoIncrement, replace }) => {
+      const request = (operation: IDBRequest) => new Promise<any>((resolve, reject) => {
+        operation.onsuccess = () => resolve(operation.result);
+        operation.onerror = () => reject(operation.error);
+      });
+      const open = (version?: number) => new Promise<IDBDatabase>((resolve, reject) => {
+        const opening = indexedDB.open(name, version);
+        opening.onupgradeneeded = () => {
+          if (!opening.result.objectStoreNames.contains(storeName)) {
+            opening.result.createObjectStore(storeName, { keyPath: keyPath ?? null, autoIncrement: autoIncrement ?? false });
+          }
+        };
+        opening.onsuccess = () => resolve(opening.result);
+        opening.onerror = () => reject(opening.error);
+      });
+
+      let db = await open();
+      if (!db.objectStoreNames.contains(storeName)) {
+        const version = db.version + 1;
+        db.close();
+        db = await open(version);
+      }
+      try {
+        const transaction = db.transaction(storeName, 'readwrite');
+        const objectStore = transaction.objectStore(storeName);
+        if (replace) await request(objectStore.clear());
+        for (const item of items) {
+          if (objectStore.keyPath === null && item !== null && typeof item === 'object' && 'key' in item && 'value' in item) {
+            await request(objectStore.put(item.value, item.key as IDBValidKey));
+          } else {
+            await request(objectStore.put(item));
+          }
+        }
+        await new Promise<void>((resolve, reject) => {
+          transaction.oncomplete = () => resolve();
+          transaction.onerror = () => reject(transaction.error);
+        });
+      } finally {
+        db.close();
+      }
+    }, { name: database, storeName: store, items: records as unknown[], ...options });
+  }
+
+  /**
+   * Remove every record of a store
+   * @param database - Database name
+   * @param store - Object store name
+   */
+  async clear(database: string, store: string): Promise<void> {
+    await this.runInStore(database, store, 'clear');
+  }
+
+  /**
+   * Delete a whole database
+   * @param database - Database name
+   */
+  async deleteDatabase(database: string): Promise<void> {
+    await this.page.evaluate((name) => new Promise<void>((resolve, reject) => {
+      const deletion = indexedDB.deleteDatabase(name);
+      deletion.onsuccess = () => resolve();
+      deletion.onerror = () => reject(deletion.error);
+      deletion.onblocked = () => reject(new Error(`Deleting IndexedDB "${name}" is blocked by an open connection`));
+    }), database);
+  }
+
+  /**
+   * Wait until a record of the store satisfies a predicate
+   * @param database - Database name
+   * @param store - Object store name
+   * @param predicate - Check run against every record value
+   * @param message - Description shown when the wait times out
+   * @returns The first matching value
+   */
+  async waitForRecord<T = any>(database: string, store: string, predicate: (value: T) => boolean, message?: string): Promise<T> {
+    let matched: T | undefined;
+    await expect.poll(async () => {
+      const values = await this.getAll<T>(database, store).catch(() => []);
+      matched = values.find(predicate);
+      return matched !== undefined;
+    }, {
+      message: message ?? `IndexedDB ${database}/${store} should contain a matching record`,
+      timeout: this.timeout,
+      intervals: [...INDEXED_DB_CONFIG.POLL_INTERVALS],
+    }).toBe(true);
+    return matched as T;
+  }
+
+  /**
+   * Run one operation against an existing store, failing clearly when the database or store is missing
+   */
+  private async runInStore(database: string, store: string, operation: StoreOperation, key?: IdbKey): Promise<any> {
+    return await this.page.evaluate(async ({ name, storeName, op, recordKey }) => {
+      const request = (pending: IDBRequest) => new Promise<any>((resolve, reject) => {
+        pending.onsuccess = () => resolve(pending.result);
+        pending.onerror = () => reject(pending.error);
+      });
+      const known = (await indexedDB.databases()).some(db => db.name === name);
+      if (!known) throw new Error(`IndexedDB database "${name}" does not exist`);
+
+      const db: IDBDatabase = await request(indexedDB.open(name));
+      try {
+        if (!db.objectStoreNames.contains(storeName)) {
+          const stores = Array.from(db.objectStoreNames).join(', ') || 'none';
+          throw new Error(`IndexedDB database "${name}" has no object store "${storeName}" (stores: ${stores})`);
+        }
+        const objectStore = db.transaction(storeName, op === 'clear' ? 'readwrite' : 'readonly').objectStore(storeName);
+        switch (op) {
+          case 'records': {
+            const [keys, values] = await Promise.all([request(objectStore.getAllKeys()), request(objectStore.getAll())]);
+            return (keys as IDBValidKey[]).map((recordKey, index) => ({ key: recordKey, value: values[index] }));
+          }
+          case 'get':
+            return await request(objectStore.get(recordKey as IDBValidKey));
+          case 'count':
+            return await request(objectStore.count());
+          case 'clear':
+            return await request(objectStore.clear());
+        }
+      } finally {
+        db.close();
+      }
+    }, { name: database, storeName: store, op: operation, recordKey: key });
+  }
+}
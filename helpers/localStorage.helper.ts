@@ -1,4 +1,5 @@
 import { Page } from '@playwright/test';
+import { StorageHelper, jsonCodec } from './storage.helper';
 
 // Storage configuration
 const STORAGE_CONFIG = {
@@ -16,17 +17,11 @@ export interface Todo {
 
 /**
  * Helper class for interacting with browser localStorage
- * Provides type-safe methods for todo app storage operations
+ * Provides type-safe methods for todo app storage operations on top of StorageHelper
  */
-export class LocalStorageHelper {
-  private readonly page: Page;
-  private readonly storageKey: string;
-  private readonly timeout: number;
-
+export class LocalStorageHelper extends StorageHelper<Todo[]> {
   constructor(page: Page, storageKey: string = STORAGE_CONFIG.TODO_KEY, timeout: number = STORAGE_CONFIG.DEFAULT_TIMEOUT) {
-    this.page = page;
-    this.storageKey = storageKey;
-    this.timeout = timeout;
+    super(page, storageKey, { codec: jsonCodec<Todo[]>(), validate: validateTodos, defaultValue: [], timeout });
   }
 
   /**
@@ -34,13 +29,9 @@ export class LocalStorageHelper {
    * @param expected - Expected number of todos
    */
   async waitForTodoCount(expected: number): Promise<void> {
-    await this.page.waitForFunction(
-      ({ key, expectedCount }) => {
-        const todos = JSON.parse(localStorage[key] || '[]');
-        return todos.length === expectedCount;
-      },
-      { key: this.storageKey, expectedCount: expected },
-      { timeout: this.timeout }
+    await this.waitFor(
+      todos => (todos ?? []).length === expected,
+      `${this.description} should hold ${expected} todo(s)`
     );
   }
 
@@ -49,13 +40,9 @@ export class LocalStorageHelper {
    * @param expected - Expected number of completed todos
    */
   async waitForCompletedTodoCount(expected: number): Promise<void> {
-    await this.page.waitForFunction(
-      ({ key, expectedCount }) => {
-        const todos = JSON.parse(localStorage[key] || '[]');
-        return todos.filter((todo: Todo) => todo.completed).length === expectedCount;
-      },
-      { key: this.storageKey, expectedCount: expected },
-      { timeout: this.timeout }
+    await this.waitFor(
+      todos => (todos ?? []).filter(todo => todo.completed).length === expected,
+      `${this.description} should hold ${expected} completed todo(s)`
     );
   }
 
@@ -64,13 +51,9 @@ export class LocalStorageHelper {
    * @param expected - Expected number of active todos
    */
   async waitForActiveTodoCount(expected: number): Promise<void> {
-    await this.page.waitForFunction(
-      ({ key, expectedCount }) => {
-        const todos = JSON.parse(localStorage[key] || '[]');
-        return todos.filter((todo: Todo) => !todo.completed).length === expectedCount;
-      },
-      { key: this.storageKey, expectedCount: expected },
-      { timeout: this.timeout }
+    await this.waitFor(
+      todos => (todos ?? []).filter(todo => !todo.completed).length === expected,
+      `${this.description} should hold ${expected} active todo(s)`
     );
   }
 
@@ -79,13 +62,9 @@ export class LocalStorageHelper {
    * @param title - Todo title to search for
    */
   async waitForTodoTitle(title: string): Promise<void> {
-    await this.page.waitForFunction(
-      ({ key, expectedTitle }) => {
-        const todos = JSON.parse(localStorage[key] || '[]');
-        return todos.some((todo: Todo) => todo.title === expectedTitle);
-      },
-      { key: this.storageKey, expectedTitle: title },
-      { timeout: this.timeout }
+    await this.waitFor(
+      todos => (todos ?? []).some(todo => todo.title === title),
+      `${this.description} should hold a todo titled "${title}"`
     );
   }
 
@@ -94,9 +73,7 @@ export class LocalStorageHelper {
    * @returns Array of todos
    */
   async getAllTodos(): Promise<Todo[]> {
-    return await this.page.evaluate((key) => {
-      return JSON.parse(localStorage[key] || '[]');
-    }, this.storageKey);
+    return (await this.get()) ?? [];
   }
 
   /**
@@ -104,10 +81,7 @@ export class LocalStorageHelper {
    * @returns Array of completed todos
    */
   async getCompletedTodos(): Promise<Todo[]> {
-    return await this.page.evaluate((key) => {
-      const todos = JSON.parse(localStorage[key] || '[]');
-      return todos.filter((todo: Todo) => todo.completed);
-    }, this.storageKey);
+    return (await this.getAllTodos()).filter(todo => todo.completed);
   }
 
   /**
@@ -115,19 +89,14 @@ export class LocalStorageHelper {
    * @returns Array of active todos
    */
   async getActiveTodos(): Promise<Todo[]> {
-    return await this.page.evaluate((key) => {
-      const todos = JSON.parse(localStorage[key] || '[]');
-      return todos.filter((todo: Todo) => !todo.completed);
-    }, this.storageKey);
+    return (await this.getAllTodos()).filter(todo => !todo.completed);
   }
 
   /**
    * Clear all todos from localStorage
    */
   async clearAllTodos(): Promise<void> {
-    await this.page.evaluate((key) => {
-      localStorage[key] = '[]';
-    }, this.storageKey);
+    await this.set([]);
   }
 
   /**
@@ -135,9 +104,7 @@ export class LocalStorageHelper {
    * @param todos - Array of todos to set
    */
   async setTodos(todos: Todo[]): Promise<void> {
-    await this.page.evaluate(({ key, todosData }) => {
-      localStorage[key] = JSON.stringify(todosData);
-    }, { key: this.storageKey, todosData: todos });
+    await this.set(todos);
   }
 
   /**
@@ -145,10 +112,7 @@ export class LocalStorageHelper {
    * @returns Number of todos
    */
   async getTodoCount(): Promise<number> {
-    return await this.page.evaluate((key) => {
-      const todos = JSON.parse(localStorage[key] || '[]');
-      return todos.length;
-    }, this.storageKey);
+    return (await this.getAllTodos()).length;
   }
 
   /**
@@ -165,10 +129,25 @@ export class LocalStorageHelper {
    * @param todo - Todo to add
    */
   async addTodo(todo: Todo): Promise<void> {
-    await this.page.evaluate(({ key, todoData }) => {
-      const todos = JSON.parse(localStorage[key] || '[]');
-      todos.push(todoData);
-      localStorage[key] = JSON.stringify(todos);
-    }, { key: this.storageKey, todoData: todo });
+    await this.patch(todos => [...(todos ?? []), todo]);
+  }
+}
+
+/**
+ * Check the stored value is a list of todos
+ * @param value - Decoded storage value
+ * @returns Problems found, empty when every entry is a todo
+ */
+export function validateTodos(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [`expected an array of todos, received ${value === null ? 'null' : typeof value}`];
   }
+  return value.flatMap((todo, index) => {
+    if (typeof todo !== 'object' || todo === null) return [`[${index}] is not an object`];
+    return [
+      typeof todo.id === 'string' ? '' : `[${index}].id must be a string`,
+      typeof todo.title === 'string' ? '' : `[${index}].title must be a string`,
+      typeof todo.completed === 'boolean' ? '' : `[${index}].completed must be a boolean`,
+    ].filter(Boolean);
+  });
 }
@@ -0,0 +1,67 @@
+/**
+ * Deterministic pseudo-random generator (mulberry32)
+ * Anything drawn from it can be reproduced by reusing the reported seed.
+ */
+export class SeededRandom {
+  readonly seed: number;
+  private state: number;
+
+  /**
+   * @param seed - 32-bit seed; a random one is picked when omitted
+   */
+  constructor(seed: number = SeededRandom.randomSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Pick a fresh seed
+   */
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 0x100000000);
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Next integer in [0, max)
+   * @param max - Exclusive upper bound
+   */
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Pick one element
+   * @param items - Non-empty list to pick from
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  /**
+   * Pick up to `count` distinct indices of a collection, in ascending order
+   * @param length - Collection length
+   * @param count - Number of indices to draw
+   */
+  sampleIndices(length: number, count: number): number[] {
+    const indices = Array.from({ length }, (_, i) => i);
+    const size = Math.min(count, length);
+
+    // Partial Fisher-Yates: only the first `size` slots need shuffling
+    for (let i = 0; i < size; i++) {
+      const j = i + this.int(length - i);
+      [indices[i], indices[j]] = [indices[j], indices[i]];
+    }
+    return indices.slice(0, size).sort((a, b) => a - b);
+  }
+}
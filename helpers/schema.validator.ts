@@ -0,0 +1,120 @@
+import { expect } from '@playwright/test';
+import Ajv2020, { AnySchema, ErrorObject, ValidateFunction } from 'ajv/dist/2020';
+import { CommentSchema, PostSchema, UserSchema } from './api.schemas';
+
+// Type definitions for schema validation
+export interface SchemaViolation {
+  /** JSON pointer to the offending value ('' for the root) */
+  pointer: string;
+  /** Failed JSON Schema keyword, e.g. 'type' or 'required' */
+  keyword: string;
+  message: string;
+}
+
+export type SchemaRef = string | object;
+
+/**
+ * Schema-driven validator backed by Ajv (JSON Schema draft 2020-12)
+ * Reports every violation at once, each located by a JSON pointer
+ */
+export class SchemaValidator {
+  private static defaultInstance: SchemaValidator | null = null;
+  private readonly ajv: Ajv2020;
+  private readonly compiled = new Map<string, ValidateFunction>();
+
+  constructor() {
+    this.ajv = new Ajv2020({ allErrors: true, strict: false });
+  }
+
+  /**
+   * Shared validator with the entity schemas registered as 'post', 'user' and 'comment'
+   */
+  static get default(): SchemaValidator {
+    if (!SchemaValidator.defaultInstance) {
+      SchemaValidator.defaultInstance = new SchemaValidator()
+        .register('post', PostSchema)
+        .register('user', UserSchema)
+        .register('comment', CommentSchema);
+    }
+    return SchemaValidator.defaultInstance;
+  }
+
+  /**
+   * Register a schema under a name
+   * @param name - Key used to reference the schema
+   * @param schema - JSON Schema document
+   * @returns The validator, for chaining
+   */
+  register(name: string, schema: object): this {
+    this.compiled.set(name, this.ajv.compile(schema as AnySchema));
+    return this;
+  }
+
+  /**
+   * Check whether a schema is registered
+   * @param name - Schema name
+   */
+  has(name: string): boolean {
+    return this.compiled.has(name);
+  }
+
+  /**
+   * Validate a payload and collect every violation
+   * @param schema - Registered schema name or an inline schema
+   * @param data - Payload to validate
+   * @returns List of violations, empty when the payload is valid
+   */
+  validate(schema: SchemaRef, data: unknown): SchemaViolation[] {
+    const validateFn = this.resolve(schema);
+    if (validateFn(data)) return [];
+    return (validateFn.errors || []).map(toViolation);
+  }
+
+  /**
+   * Assert that a payload matches a schema, reporting all violations in one failure
+   * @param schema - Registered schema name or an inline schema
+   * @param data - Payload to validate
+   * @param label - Entity label used in the failure message
+   */
+  assertValid(schema: SchemaRef, data: unknown, label: string = typeof schema === 'string' ? schema : 'Payload'): void {
+    const violations = this.validate(schema, data);
+    expect(violations, `${label} should match schema:\n${SchemaValidator.format(violations)}`).toEqual([]);
+  }
+
+  /**
+   * Render violations as one line per JSON pointer
+   * @param violations - Violations to format
+   */
+  static format(violations: SchemaViolation[]): string {
+    return violations.map(v => `  ${v.pointer || '/'} ${v.message}`).join('\n');
+  }
+
+  /**
+   * Get the compiled validator for a schema reference
+   */
+  private resolve(schema: SchemaRef): ValidateFunction {
+    if (typeof schema !== 'string') {
+      const id = (schema as { $id?: string }).$id;
+      return (id && this.ajv.getSchema(id)) || this.ajv.compile(schema as AnySchema);
+    }
+
+    const validateFn = this.compiled.get(schema);
+    if (!validateFn) {
+      throw new Error(`Schema "${schema}" is not registered. Registered schemas: ${[...this.compiled.keys()].join(', ')}`);
+    }
+    return validateFn;
+  }
+}
+
+/**
+ * Convert an Ajv error to a violation; 'required' errors point at the missing property
+ * Shared with the OpenAPI contract checks so both report violations the same way.
+ */
+export function toViolation(error: ErrorObject): SchemaViolation {
+  const missing = error.keyword === 'required' ? `/${(error.params as { missingProperty: string }).missingProperty}` : '';
+  return {
+    pointer: `${error.instancePath}${missing}`,
+    keyword: error.keyword,
+    message: error.message || 'is invalid',
+  };
+}
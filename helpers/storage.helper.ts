@@ -0,0 +1,269 @@
+import { Page, expect } from '@playwright/test';
+import { StorageRecorder } from './storageRecorder.helper';
+
+// Storage configuration
+const STORAGE_HELPER_CONFIG = {
+  DEFAULT_AREA: 'localStorage',
+  DEFAULT_TIMEOUT: 5000,
+  POLL_INTERVALS: [50, 100, 250],
+} as const;
+
+// Type definitions for browser storage
+export type StorageArea = 'localStorage' | 'sessionStorage';
+
+/**
+ * Converts between the stored string and the value seen by tests
+ */
+export interface StorageCodec<T> {
+  encode(value: T): string;
+  decode(raw: string): T;
+}
+
+/**
+ * Runtime check of a decoded value
+ * @returns Problems found, empty when the value is valid
+ */
+export type StorageValidator = (value: unknown) => string[];
+
+export interface StorageHelperOptions<T> {
+  /** Storage area holding the key, localStorage by default */
+  area?: StorageArea;
+  /** JSON by default */
+  codec?: StorageCodec<T>;
+  /** Checked on every read and write */
+  validate?: StorageValidator;
+  /** Value returned by get() when the key is absent */
+  defaultValue?: T;
+  /** Timeout of waitFor() in milliseconds */
+  timeout?: number;
+}
+
+export interface StorageRecordingOptions {
+  /** Record every key of both storage areas instead of this helper's key only */
+  allKeys?: boolean;
+}
+
+export interface StorageSnapshot<T> {
+  /** Stored string, null when the key was absent */
+  raw: string | null;
+  /** Decoded value, undefined when the key was absent */
+  value: T | undefined;
+  takenAt: number;
+}
+
+export interface StorageChange {
+  /** JSON pointer of the changed value, '' for the whole value */
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * JSON codec, the default
+ */
+export function jsonCodec<T>(): StorageCodec<T> {
+  return { encode: value => JSON.stringify(value), decode: raw => JSON.parse(raw) };
+}
+
+/**
+ * Codec storing strings unchanged
+ */
+export const rawCodec: StorageCodec<string> = { encode: value => value, decode: raw => raw };
+
+/**
+ * Typed access to a single localStorage or sessionStorage key
+ * Values are encoded and decoded on the test side, so custom codecs and validators
+ * can be any function; only the raw string crosses into the page.
+ */
+export class StorageHelper<T> {
+  protected readonly page: Page;
+  protected readonly storageKey: string;
+  protected readonly area: StorageArea;
+  protected readonly timeout: number;
+  private readonly codec: StorageCodec<T>;
+  private readonly validator?: StorageValidator;
+  private readonly defaultValue?: T;
+
+  constructor(page: Page, storageKey: string, options?: StorageHelperOptions<T>) {
+    this.page = page;
+    this.storageKey = storageKey;
+    this.area = options?.area ?? STORAGE_HELPER_CONFIG.DEFAULT_AREA;
+    this.timeout = options?.timeout ?? STORAGE_HELPER_CONFIG.DEFAULT_TIMEOUT;
+    this.codec = options?.codec ?? jsonCodec<T>();
+    this.validator = options?.validate;
+    this.defaultValue = options?.defaultValue;
+  }
+
+  /**
+   * Key description used in error messages, e.g. localStorage["react-todos"]
+   */
+  get description(): string {
+    return `${this.area}["${this.storageKey}"]`;
+  }
+
+  /**
+   * Read the stored string without decoding it
+   * @returns Stored string, or null when the key is absent
+   */
+  async getRaw(): Promise<string | null> {
+    return await this.page.evaluate(({ area, key }) => window[area].getItem(key), { area: this.area, key: this.storageKey });
+  }
+
+  /**
+   * Read and decode the value
+   * @returns Decoded value, or the default value (undefined unless configured) when the key is absent
+   */
+  async get(): Promise<T | undefined> {
+    return this.decode(await this.getRaw());
+  }
+
+  /**
+   * Encode and store a value
+   * @param value - Value to store; validated first
+   */
+  async set(value: T): Promise<void> {
+    this.check(value, 'write');
+    await this.page.evaluate(
+      ({ area, key, raw }) => window[area].setItem(key, raw),
+      { area: this.area, key: this.storageKey, raw: this.codec.encode(value) }
+    );
+  }
+
+  /**
+   * Update the stored value
+   * @param update - Function of the current value, or fields shallow-merged into the stored object
+   * @returns The value written
+   */
+  async patch(update: Partial<T> | ((current: T | undefined) => T)): Promise<T> {
+    const current = await this.get();
+    const next = typeof update === 'function'
+      ? (update as (current: T | undefined) => T)(current)
+      : { ...(current as object), ...update } as T;
+    await this.set(next);
+    return next;
+  }
+
+  /**
+   * Remove the key
+   */
+  async remove(): Promise<void> {
+    await this.page.evaluate(({ area, key }) => window[area].removeItem(key), { area: this.area, key: this.storageKey });
+  }
+
+  /**
+   * Check whether the key is present
+   */
+  async exists(): Promise<boolean> {
+    return (await this.getRaw()) !== null;
+  }
+
+  /**
+   * Wait until the decoded value satisfies a predicate
+   * @param predicate - Check run against every polled value
+   * @param message - Description shown when the wait times out
+   * @returns The first value satisfying the predicate
+   */
+  async waitFor(predicate: (value: T | undefined) => boolean, message?: string): Promise<T | undefined> {
+    let matched: T | undefined;
+    await expect.poll(async () => {
+      const value = await this.get();
+      if (!predicate(value)) return false;
+      matched = value;
+      return true;
+    }, {
+      message: message ?? `${this.description} should satisfy the predicate`,
+      timeout: this.timeout,
+      intervals: [...STORAGE_HELPER_CONFIG.POLL_INTERVALS],
+    }).toBe(true);
+    return matched;
+  }
+
+  /**
+   * Capture the current value for a later diff
+   */
+  async snapshot(): Promise<StorageSnapshot<T>> {
+    const raw = await this.getRaw();
+    return { raw, value: raw === null ? undefined : this.decode(raw), takenAt: Date.now() };
+  }
+
+  /**
+   * Changes between a snapshot and the current value
+   * @param before - Snapshot taken earlier
+   * @returns One entry per added, removed or changed leaf
+   */
+  async diffSince(before: StorageSnapshot<T>): Promise<StorageChange[]> {
+    const after = await this.snapshot();
+    return diffValues(before.value, after.value);
+  }
+
+  /**
+   * Start recording setItem/removeItem/clear calls made by the page
+   * clear() of the helper's area is always recorded, since it removes the key too.
+   * @param options - Recording scope
+   * @returns Recorder with the mutation log and assertions; values() decodes with this helper's codec
+   */
+  async startRecording(options?: StorageRecordingOptions): Promise<StorageRecorder<T>> {
+    const recorder = new StorageRecorder<T>(this.page, {
+      scope: options?.allKeys ? {} : { area: this.area, key: this.storageKey },
+      decode: raw => this.codec.decode(raw),
+    });
+    return await recorder.start();
+  }
+
+  /**
+   * Decode a stored string and validate the result
+   */
+  private decode(raw: string | null): T | undefined {
+    if (raw === null) return this.defaultValue;
+
+    let value: T;
+    try {
+      value = this.codec.decode(raw);
+    } catch (error) {
+      throw new Error(`${this.description} could not be decoded: ${error instanceof Error ? error.message : error} (raw: ${raw.slice(0, 200)})`);
+    }
+    this.check(value, 'read');
+    return value;
+  }
+
+  /**
+   * Run the validator, if any
+   */
+  private check(value: unknown, operation: 'read' | 'write'): void {
+    const problems = this.validator?.(value) ?? [];
+    if (problems.length > 0) {
+      throw new Error(`Invalid value on ${operation} of ${this.description}:\n  ${problems.join('\n  ')}`);
+    }
+  }
+}
+
+/**
+ * Structural diff of two decoded values
+ * Objects are compared by key and arrays by index; anything else by value.
+ * @param before - Earlier value
+ * @param after - Later value
+ * @param path - JSON pointer of the compared values
+ * @returns One entry per added, removed or changed leaf
+ */
+export function diffValues(before: unknown, after: unknown, path: string = ''): StorageChange[] {
+  if (Object.is(before, after)) return [];
+  if (before === undefined) return [{ path, kind: 'added', after }];
+  if (after === undefined) return [{ path, kind: 'removed', before }];
+
+  const bothArrays = Array.isArray(before) && Array.isArray(after);
+  const bothObjects = isPlainObject(before) && isPlainObject(after);
+  if (!bothArrays && !bothObjects) {
+    return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ path, kind: 'changed', before, after }];
+  }
+
+  const left = before as Record<string, unknown>;
+  const right = after as Record<string, unknown>;
+  const keys = bothArrays
+    ? Array.from({ length: Math.max((before as unknown[]).length, (after as unknown[]).length) }, (_, index) => String(index))
+    : [...new Set([...Object.keys(left), ...Object.keys(right)])];
+  return keys.flatMap(key => diffValues(left[key], right[key], `${path}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`));
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
@@ -0,0 +1,277 @@
+import { Page, expect } from '@playwright/test';
+import type { StorageArea } from './storage.helper';
+
+// Storage recorder configuration
+const STORAGE_RECORDER_CONFIG = {
+  BINDING_PREFIX: '__storageRecorder',
+  VALUE_PREVIEW_LENGTH: 80,
+} as const;
+
+let recorderCount = 0;
+
+// Type definitions for storage recording
+export type StorageMutationType = 'setItem' | 'removeItem' | 'clear';
+
+export interface StorageMutation {
+  type: StorageMutationType;
+  area: StorageArea;
+  /** Affected key, null for clear() */
+  key: string | null;
+  /** Value written by setItem(), null otherwise */
+  value: string | null;
+  /** Value of the key before the call, null when it was absent or for clear() */
+  oldValue: string | null;
+  /** Origin of the frame that made the call */
+  origin: string;
+  /** Page clock when the call was made, in epoch milliseconds */
+  timestamp: number;
+  /** Milliseconds since the recording started */
+  elapsedMs: number;
+}
+
+export interface StorageMutationFilter {
+  type?: StorageMutationType | StorageMutationType[];
+  area?: StorageArea;
+  /** Only mutations of this key; clear() of the same area always matches */
+  key?: string;
+}
+
+export interface StorageRecorderOptions {
+  /** Only record mutations matching this filter; everything when omitted */
+  scope?: StorageMutationFilter;
+  /** Decodes written values for values(); JSON.parse by default */
+  decode?: (raw: string) => unknown;
+}
+
+/**
+ * Records every Storage.prototype.setItem/removeItem/clear call made by the page
+ * Calls reach the test through a page binding, so the log survives reloads and
+ * navigations. Direct property writes (localStorage.foo = 'x') bypass the prototype
+ * methods and are not recorded.
+ */
+export class StorageRecorder<T = unknown> {
+  private readonly page: Page;
+  private readonly scope: StorageMutationFilter;
+  private readonly decode: (raw: string) => unknown;
+  private readonly binding: string;
+  private readonly log: StorageMutation[] = [];
+  private startedAt = 0;
+  private recording = false;
+
+  constructor(page: Page, options?: StorageRecorderOptions) {
+    this.page = page;
+    this.scope = options?.scope ?? {};
+    this.decode = options?.decode ?? JSON.parse;
+    this.binding = `${STORAGE_RECORDER_CONFIG.BINDING_PREFIX}${++recorderCount}`;
+  }
+
+  /**
+   * Instrument the page and every document it loads later
+   */
+  async start(): Promise<this> {
+    if (this.recording) return this;
+    this.startedAt = Date.now();
+    this.recording = true;
+
+    await this.page.exposeBinding(this.binding, (_source, mutation: Omit<StorageMutation, 'elapsedMs'>) => {
+      if (!this.recording || !matches(mutation, this.scope)) return;
+      this.log.push({ ...mutation, elapsedMs: mutation.timestamp - this.startedAt });
+    });
+    await this.page.addInitScript(instrumentStorage, this.binding);
+    await this.page.evaluate(instrumentStorage, this.binding);
+    return this;
+  }
+
+  /**
+   * Stop collecting mutations; the log is kept
+   */
+  async stop(): Promise<void> {
+    await this.flush();
+    this.recording = false;
+  }
+
+  /**
+   * Drop the mutations collected so far
+   */
+  async reset(): Promise<void> {
+    await this.flush();
+    this.log.length = 0;
+  }
+
+  /**
+   * Mutations collected so far, oldest first
+   * @param filter - Only mutations matching this filter
+   */
+  async mutations(filter: StorageMutationFilter = {}): Promise<StorageMutation[]> {
+    await this.flush();
+    return this.log.filter(mutation => matches(mutation, filter));
+  }
+
+  /**
+   * setItem() calls collected so far
+   * @param filter - Further restricts the writes
+   */
+  async writes(filter: Omit<StorageMutationFilter, 'type'> = {}): Promise<StorageMutation[]> {
+    return await this.mutations({ ...filter, type: 'setItem' });
+  }
+
+  /**
+   * Decoded values written so far, oldest first
+   * @param filter - Further restricts the writes
+   */
+  async values(filter: Omit<StorageMutationFilter, 'type'> = {}): Promise<T[]> {
+    return (await this.writes(filter)).map(mutation => this.decode(mutation.value as string) as T);
+  }
+
+  /**
+   * Run an action and return the mutations it caused
+   * @param action - Action to run, e.g. () => todoPage.addTodo('feed the cat')
+   * @param filter - Only mutations matching this filter
+   */
+  async during(action: () => Promise<unknown>, filter: StorageMutationFilter = {}): Promise<StorageMutation[]> {
+    const before = (await this.mutations()).length;
+    await action();
+    return (await this.mutations()).slice(before).filter(mutation => matches(mutation, filter));
+  }
+
+  /**
+   * Assert the number of mutations collected so far
+   * @param expected - Expected number of mutations
+   * @param filter - Only count mutations matching this filter
+   */
+  async expectCount(expected: number, filter: StorageMutationFilter = {}): Promise<void> {
+    const mutations = await this.mutations(filter);
+    expect(mutations.length, `Expected ${expected} ${describeFilter({ ...this.scope, ...filter })}, recorded:\n${formatMutations(mutations)}`).toBe(expected);
+  }
+
+  /**
+   * Assert an action writes exactly a number of times
+   * @param action - Action to run
+   * @param expected - Expected number of setItem() calls
+   * @param filter - Only count writes matching this filter
+   * @returns The writes made by the action
+   */
+  async expectWritesDuring(action: () => Promise<unknown>, expected: number, filter: Omit<StorageMutationFilter, 'type'> = {}): Promise<StorageMutation[]> {
+    const all = await this.during(action);
+    const writes = all.filter(mutation => matches(mutation, { ...filter, type: 'setItem' }));
+    expect(writes.length, `Expected ${expected} ${describeFilter({ ...this.scope, ...filter, type: 'setItem' })} during the action, recorded:\n${formatMutations(all)}`).toBe(expected);
+    return writes;
+  }
+
+  /**
+   * Assert an action leaves storage untouched
+   * @param action - Action to run, e.g. () => todoPage.filterBy('active')
+   * @param filter - Only consider mutations matching this filter
+   */
+  async expectNoMutationsDuring(action: () => Promise<unknown>, filter: StorageMutationFilter = {}): Promise<void> {
+    const mutations = await this.during(action, filter);
+    expect(mutations.length, `Expected no ${describeFilter({ ...this.scope, ...filter })} during the action, recorded:\n${formatMutations(mutations)}`).toBe(0);
+  }
+
+  /**
+   * Assert the exact sequence of mutations collected so far
+   * @param expected - One partial mutation per recorded call, in order
+   * @param filter - Only compare mutations matching this filter
+   */
+  async expectSequence(expected: Partial<StorageMutation>[], filter: StorageMutationFilter = {}): Promise<void> {
+    const mutations = await this.mutations(filter);
+    // toMatchObject also requires arrays of equal length
+    expect(mutations, `Storage mutations should follow the expected sequence, recorded:\n${formatMutations(mutations)}`).toMatchObject(expected);
+  }
+
+  /**
+   * Human-readable log, one mutation per line
+   */
+  async timeline(filter: StorageMutationFilter = {}): Promise<string> {
+    return formatMutations(await this.mutations(filter));
+  }
+
+  /**
+   * Let binding calls already made by the page reach the log
+   * Binding calls and evaluate results share one ordered channel, so a round trip is enough.
+   */
+  private async flush(): Promise<void> {
+    if (!this.recording || this.page.isClosed()) return;
+    await this.page.evaluate(() => undefined);
+  }
+}
+
+/**
+ * Wrap the Storage prototype methods so every call is reported to the binding
+ * Runs in the page; wrapping twice with the same binding is a no-op.
+ */
+function instrumentStorage(binding: string): void {
+  const target = window as unknown as Record<string, any>;
+  const installed = `${binding}Installed`;
+  if (target[installed]) return;
+  target[installed] = true;
+
+  const proto = Storage.prototype;
+  const getItem = proto.getItem;
+  const areaOf = (storage: Storage) => {
+    try {
+      return storage === window.sessionStorage ? 'sessionStorage' : 'localStorage';
+    } catch {
+      return 'localStorage';
+    }
+  };
+  const report = (type: string, storage: Storage, key: string | null, value: string | null, oldValue: string | null) => {
+    const send = target[binding];
+    if (typeof send === 'function') {
+      send({ type, area: areaOf(storage), key, value, oldValue, origin: window.location.origin, timestamp: Date.now() });
+    }
+  };
+
+  const setItem = proto.setItem;
+  proto.setItem = function (this: Storage, key: string, value: string) {
+    const oldValue = getItem.call(this, key);
+    setItem.call(this, key, value);
+    report('setItem', this, String(key), String(value), oldValue);
+  };
+  const removeItem = proto.removeItem;
+  proto.removeItem = function (this: Storage, key: string) {
+    const oldValue = getItem.call(this, key);
+    removeItem.call(this, key);
+    report('removeItem', this, String(key), null, oldValue);
+  };
+  const clear = proto.clear;
+  proto.clear = function (this: Storage) {
+    clear.call(this);
+    report('clear', this, null, null, null);
+  };
+}
+
+/**
+ * Check a mutation against a filter
+ */
+function matches(mutation: Omit<StorageMutation, 'elapsedMs'>, filter: StorageMutationFilter): boolean {
+  const types = filter.type === undefined ? undefined : [filter.type].flat();
+  if (types && !types.includes(mutation.type)) return false;
+  if (filter.area && mutation.area !== filter.area) return false;
+  if (filter.key !== undefined && mutation.type !== 'clear' && mutation.key !== filter.key) return false;
+  return true;
+}
+
+/**
+ * Describe a filter for assertion messages, e.g. "setItem call(s) of localStorage["react-todos"]"
+ */
+function describeFilter(filter: StorageMutationFilter): string {
+  const types = filter.type === undefined ? 'storage mutation(s)' : `${[filter.type].flat().join('/')} call(s)`;
+  const target = filter.key !== undefined ? ` of ${filter.area ?? 'storage'}["${filter.key}"]` : filter.area ? ` of ${filter.area}` : '';
+  return `${types}${target}`;
+}
+
+/**
+ * One line per mutation, e.g. "  +12ms setItem localStorage["react-todos"] = [...]"
+ */
+function formatMutations(mutations: StorageMutation[]): string {
+  if (mutations.length === 0) return '  (none)';
+  const preview = (value: string) => value.length > STORAGE_RECORDER_CONFIG.VALUE_PREVIEW_LENGTH
+    ? `${value.slice(0, STORAGE_RECORDER_CONFIG.VALUE_PREVIEW_LENGTH)}…`
+    : value;
+  return mutations.map(mutation => {
+    const target = mutation.key === null ? mutation.area : `${mutation.area}["${mutation.key}"]`;
+    const value = mutation.type === 'setItem' ? ` = ${preview(mutation.value as string)}` : '';
+    return `  +${mutation.elapsedMs}ms ${mutation.type} ${target}${value}`;
+  }).join('\n');
+}
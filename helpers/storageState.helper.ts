@@ -0,0 +1,253 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BrowserContext, BrowserContextOptions, Page } from '@playwright/test';
+import { CookieSeed } from './cookie.helper';
+
+// Storage state configuration
+const STORAGE_STATE_CONFIG = {
+  SNAPSHOT_DIR: process.env.STORAGE_SNAPSHOT_DIR || 'storage-snapshots',
+  /** sessionStorage key marking a tab whose seed was applied, so reloads keep the app's changes */
+  SEED_MARKER: '__storage_seed_applied__',
+} as const;
+
+// Type definitions for storage state
+export type BrowserStorageState = Exclude<BrowserContextOptions['storageState'], string | undefined>;
+
+/** Storage entries; strings are stored as-is, anything else as JSON */
+export type StorageEntries = Record<string, unknown>;
+
+export interface OriginSeed {
+  localStorage?: StorageEntries;
+  sessionStorage?: StorageEntries;
+}
+
+/**
+ * Storage a browser context starts with, applied before any page script runs
+ */
+export interface StorageSeed {
+  /** Web storage per origin, e.g. { 'https://demo.playwright.dev': { localStorage: { 'react-todos': [] } } } */
+  origins?: Record<string, OriginSeed>;
+  /** Cookies; each needs a url or a domain */
+  cookies?: CookieSeed[];
+}
+
+/**
+ * Full storage of a browser context at one point in time
+ */
+export interface BrowserStateSnapshot {
+  /** Cookies, localStorage and IndexedDB of every origin, as returned by context.storageState() */
+  storageState: BrowserStorageState;
+  /** sessionStorage per origin; only the origin of the snapshotted page is captured */
+  sessionStorage: Record<string, Record<string, string>>;
+  takenAt: string;
+}
+
+/**
+ * Snapshot, restore and persist the storage state of a page's browser context
+ * Named snapshots are JSON files that can seed later tests through the storageSnapshot fixture option.
+ */
+export class StorageStateHelper {
+  private readonly page: Page;
+  private readonly snapshotDir: string;
+
+  constructor(page: Page, snapshotDir: string = STORAGE_STATE_CONFIG.SNAPSHOT_DIR) {
+    this.page = page;
+    this.snapshotDir = snapshotDir;
+  }
+
+  /**
+   * Capture cookies, localStorage and IndexedDB of the context plus sessionStorage of the page
+   * @param name - Also save the snapshot to disk under this name
+   */
+  async snapshot(name?: string): Promise<BrowserStateSnapshot> {
+    const storageState = await this.page.context().storageState({ indexedDB: true });
+    const origin = this.currentOrigin();
+    const sessionStorage = origin
+      ? { [origin]: await this.page.evaluate((marker) => Object.fromEntries(
+        Object.entries(window.sessionStorage).filter(([key]) => key !== marker)
+      ), STORAGE_STATE_CONFIG.SEED_MARKER) }
+      : {};
+    const snapshot: BrowserStateSnapshot = { storageState, sessionStorage, takenAt: new Date().toISOString() };
+
+    if (name) this.save(name, snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Put the context back into a snapshotted state
+   * Cookies are replaced for the whole context; localStorage and sessionStorage for the page's origin.
+   * IndexedDB is only restored when a new context starts from the snapshot. Reload the page
+   * afterwards if the app only reads storage on start-up.
+   * @param snapshot - Snapshot object or name of a saved snapshot
+   */
+  async restore(snapshot: BrowserStateSnapshot | string): Promise<void> {
+    const state = typeof snapshot === 'string' ? this.load(snapshot) : snapshot;
+    const context = this.page.context();
+
+    await context.clearCookies();
+    if (state.storageState.cookies.length > 0) {
+      await context.addCookies(state.storageState.cookies);
+    }
+
+    const origin = this.currentOrigin();
+    if (!origin) return;
+    const local = state.storageState.origins.find(entry => entry.origin === origin)?.localStorage ?? [];
+    await this.page.evaluate(({ localEntries, sessionEntries }) => {
+      window.localStorage.clear();
+      localEntries.forEach(({ name, value }) => window.localStorage.setItem(name, value));
+      window.sessionStorage.clear();
+      Object.entries(sessionEntries).forEach(([name, value]) => window.sessionStorage.setItem(name, value));
+    }, { localEntries: local, sessionEntries: state.sessionStorage[origin] ?? {} });
+  }
+
+  /**
+   * Save a snapshot to disk
+   * @param name - Snapshot name, used as the file name
+   * @param snapshot - Snapshot to save
+   * @returns Path of the written file
+   */
+  save(name: string, snapshot: BrowserStateSnapshot): string {
+    const file = snapshotPath(this.snapshotDir, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, `${JSON.stringify(snapshot, null, 2)}\n`);
+    return file;
+  }
+
+  /**
+   * Read a saved snapshot
+   * @param name - Snapshot name
+   */
+  load(name: string): BrowserStateSnapshot {
+    return loadSnapshot(name, this.snapshotDir);
+  }
+
+  /**
+   * Origin of the page, undefined before the first http(s) navigation
+   */
+  private currentOrigin(): string | undefined {
+    const url = this.page.url();
+    return /^https?:/.test(url) ? new URL(url).origin : undefined;
+  }
+}
+
+/**
+ * Read a named snapshot from a snapshot directory
+ * @param name - Snapshot name
+ * @param snapshotDir - Directory holding the snapshots
+ */
+export function loadSnapshot(name: string, snapshotDir: string = STORAGE_STATE_CONFIG.SNAPSHOT_DIR): BrowserStateSnapshot {
+  const file = snapshotPath(snapshotDir, name);
+  if (!fs.existsSync(file)) {
+    const known = fs.existsSync(snapshotDir) ? fs.readdirSync(snapshotDir).filter(entry => entry.endsWith('.json')) : [];
+    throw new Error(`Storage snapshot "${name}" not found at ${file}; available: ${known.map(entry => entry.slice(0, -5)).join(', ') || 'none'}`);
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+/**
+ * Convert a seed into a snapshot that a new context can start from
+ * @param seed - Declared initial storage
+ */
+export function snapshotFromSeed(seed: StorageSeed): BrowserStateSnapshot {
+  const origins = Object.entries(seed.origins ?? {}).map(([origin, storage]) => [new URL(origin).origin, storage] as const);
+  return {
+    storageState: {
+      cookies: (seed.cookies ?? []).map(toStateCookie),
+      origins: origins
+        .filter(([, storage]) => storage.localStorage)
+        .map(([origin, storage]) => ({ origin, localStorage: toEntries(storage.localStorage) })),
+    },
+    sessionStorage: Object.fromEntries(origins
+      .filter(([, storage]) => storage.sessionStorage)
+      .map(([origin, storage]) => [origin, Object.fromEntries(toEntries(storage.sessionStorage).map(({ name, value }) => [name, value]))])),
+    takenAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Merge snapshots; later ones win per cookie, per origin and per key
+ * @param snapshots - Snapshots in increasing priority, undefined entries are skipped
+ */
+export function mergeSnapshots(...snapshots: (BrowserStateSnapshot | undefined)[]): BrowserStateSnapshot | undefined {
+  const present = snapshots.filter((snapshot): snapshot is BrowserStateSnapshot => snapshot !== undefined);
+  if (present.length === 0) return undefined;
+
+  const cookies = new Map<string, BrowserStorageState['cookies'][number]>();
+  // Other per-origin data (IndexedDB) is merged shallowly, later snapshots winning
+  const origins = new Map<string, { state: BrowserStorageState['origins'][number]; entries: Map<string, string> }>();
+  const sessionStorage: BrowserStateSnapshot['sessionStorage'] = {};
+  for (const snapshot of present) {
+    snapshot.storageState.cookies.forEach(cookie => cookies.set(`${cookie.name};${cookie.domain};${cookie.path}`, cookie));
+    snapshot.storageState.origins.forEach(state => {
+      const previous = origins.get(state.origin);
+      const entries = previous?.entries ?? new Map<string, string>();
+      state.localStorage.forEach(({ name, value }) => entries.set(name, value));
+      origins.set(state.origin, { state: { ...previous?.state, ...state }, entries });
+    });
+    Object.entries(snapshot.sessionStorage).forEach(([origin, entries]) => {
+      sessionStorage[origin] = { ...sessionStorage[origin], ...entries };
+    });
+  }
+
+  return {
+    storageState: {
+      cookies: [...cookies.values()],
+      origins: [...origins.values()].map(({ state, entries }) => ({
+        ...state,
+        localStorage: [...entries.entries()].map(([name, value]) => ({ name, value })),
+      })),
+    },
+    sessionStorage,
+    takenAt: present[present.length - 1].takenAt,
+  };
+}
+
+/**
+ * Seed sessionStorage in every new tab before page scripts run
+ * Each tab is seeded once, so reloads keep whatever the app wrote since.
+ * @param context - Browser context to instrument
+ * @param sessionStorage - Entries per origin
+ */
+export async function seedSessionStorage(context: BrowserContext, sessionStorage: Record<string, Record<string, string>>): Promise<void> {
+  if (Object.keys(sessionStorage).length === 0) return;
+
+  await context.addInitScript(({ entries, marker }) => {
+    const seed = entries[window.location.origin];
+    if (!seed || window.sessionStorage.getItem(marker) !== null) return;
+    Object.entries(seed).forEach(([name, value]) => window.sessionStorage.setItem(name, value));
+    window.sessionStorage.setItem(marker, '1');
+  }, { entries: sessionStorage, marker: STORAGE_STATE_CONFIG.SEED_MARKER });
+}
+
+/**
+ * Cookie seed in the shape context storage state expects
+ */
+function toStateCookie(cookie: CookieSeed): BrowserStorageState['cookies'][number] {
+  const url = cookie.url ? new URL(cookie.url) : undefined;
+  const domain = cookie.domain ?? url?.hostname;
+  if (!domain) {
+    throw new Error(`Seeded cookie "${cookie.name}" needs a url or domain`);
+  }
+  const expires = cookie.maxAgeSeconds !== undefined
+    ? Math.floor(Date.now() / 1000) + cookie.maxAgeSeconds
+    : cookie.expires ?? -1;
+  return {
+    name: cookie.name,
+    value: cookie.value,
+    domain,
+    path: cookie.path ?? '/',
+    expires,
+    httpOnly: cookie.httpOnly ?? false,
+    secure: cookie.secure ?? url?.protocol === 'https:',
+    sameSite: cookie.sameSite ?? 'Lax',
+  };
+}
+
+/**
+ * Storage entries as name/value strings
+ */
+function toEntries(entries: StorageEntries = {}): { name: string; value: string }[] {
+  return Object.entries(entries).map(([name, value]) => ({ name, value: typeof value === 'string' ? value : JSON.stringify(value) }));
+}
+
+const snapshotPath = (dir: string, name: string): string => path.resolve(dir, `${name.replace(/[^\w.-]+/g, '_')}.json`);
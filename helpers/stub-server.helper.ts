@@ -0,0 +1,172 @@
+import * as http from 'http';
+import { IncomingHttpHeaders, IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+
+// Type definitions for stub routes
+export interface StubRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: IncomingHttpHeaders;
+  body: string;
+  /** Undecoded request body, for binary payloads */
+  bodyBuffer: Buffer;
+  raw: IncomingMessage;
+}
+
+export interface StubReply {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+  delayMs?: number;
+}
+
+/**
+ * Route handler. Return a reply to send it, or undefined when the handler
+ * already dealt with the socket itself (e.g. to simulate a dropped connection).
+ */
+export type StubHandler = (request: StubRequest) => StubReply | undefined | Promise<StubReply | undefined>;
+
+interface StubRoute {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: StubHandler;
+}
+
+/**
+ * Minimal HTTP server for exercising API helpers against local endpoints
+ * Routes support `:param` segments and every received request is recorded
+ */
+export class StubServer {
+  private readonly server: http.Server;
+  private readonly routes: StubRoute[] = [];
+  readonly requests: StubRequest[] = [];
+
+  constructor() {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+        }
+        res.end(JSON.stringify({ error: String(error) }));
+      });
+    });
+  }
+
+  /**
+   * Register a route handler
+   * @param method - HTTP method, or '*' for any method
+   * @param path - Path pattern such as '/posts/:id/comments'
+   * @param handler - Function producing the reply
+   */
+  on(method: string, path: string, handler: StubHandler): this {
+    const keys: string[] = [];
+    const source = path
+      .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/:(\w+)/g, (_, key: string) => {
+        keys.push(key);
+        return '([^/]+)';
+      });
+
+    this.routes.push({ method: method.toUpperCase(), pattern: new RegExp(`^${source}/?$`), keys, handler });
+    return this;
+  }
+
+  /**
+   * Start listening on a local port
+   * @param port - Port to bind, 0 picks a free one
+   * @returns Base URL of the server
+   */
+  async start(port: number = 0): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(port, '127.0.0.1', resolve));
+    return this.url;
+  }
+
+  /**
+   * Stop the server and drop open connections
+   */
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Base URL of the running server
+   */
+  get url(): string {
+    const address = this.server.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('Stub server is not running. Call start() first.');
+    }
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  /**
+   * Forget recorded requests
+   */
+  reset(): void {
+    this.requests.length = 0;
+  }
+
+  /**
+   * Dispatch an incoming request to the first matching route
+   */
+  private async handle(req: IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    const bodyBuffer = Buffer.concat(chunks);
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = (req.method || 'GET').toUpperCase();
+    const request: StubRequest = {
+      method,
+      path: url.pathname,
+      params: {},
+      query: url.searchParams,
+      headers: req.headers,
+      body: bodyBuffer.toString('utf-8'),
+      bodyBuffer,
+      raw: req,
+    };
+    this.requests.push(request);
+
+    for (const route of this.routes) {
+      const match = route.pattern.exec(url.pathname);
+      if (!match || (route.method !== '*' && route.method !== method)) continue;
+
+      route.keys.forEach((key, index) => {
+        request.params[key] = decodeURIComponent(match[index + 1]);
+      });
+
+      const reply = await route.handler(request);
+      if (reply) {
+        await this.send(res, reply);
+      }
+      return;
+    }
+
+    await this.send(res, { status: 404, body: {} });
+  }
+
+  /**
+   * Write a reply, serialising non-string bodies as JSON
+   */
+  private async send(res: http.ServerResponse, reply: StubReply): Promise<void> {
+    if (reply.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, reply.delayMs));
+    }
+
+    const isRaw = typeof reply.body === 'string' || Buffer.isBuffer(reply.body);
+    const headers = {
+      ...(isRaw || reply.body === undefined ? {} : { 'Content-Type': 'application/json; charset=utf-8' }),
+      ...reply.headers,
+    };
+
+    res.writeHead(reply.status ?? 200, headers);
+    res.end(isRaw ? reply.body as string | Buffer : reply.body === undefined ? undefined : JSON.stringify(reply.body));
+  }
+}
@@ -0,0 +1,514 @@
+import { TestInfo, expect, test } from '@playwright/test';
+import { FilterType, TodoPage, TodoState } from '../pages/todo.page';
+import { LocalStorageHelper } from './localStorage.helper';
+import { SeededRandom } from './random.helper';
+import { diffValues } from './storage.helper';
+
+// Model-based testing configuration
+const TODO_MODEL_CONFIG = {
+  DEFAULT_STEPS: 20,
+  /** Upper bound of replays spent on shrinking a failing sequence */
+  MAX_SHRINK_RUNS: 40,
+  /** How long the UI may take to catch up with the model after each step */
+  SETTLE_TIMEOUT: 1000,
+  POLL_INTERVALS: [25, 50, 100],
+  ATTACHMENT_NAME: 'model-reproduction.spec.ts',
+  TITLES: ['buy some cheese', 'feed the cat', 'book a doctors appointment', 'water the plants', 'call mum', 'pay the rent'],
+  /** Relative frequency of each action among the applicable ones */
+  WEIGHTS: { add: 4, toggle: 2, uncheck: 1, edit: 1, cancelEdit: 1, delete: 1, toggleAll: 1, clearCompleted: 1, filter: 2 },
+} as const;
+
+// Type definitions for model-based testing
+/**
+ * One user action; indices address the currently visible items, like TodoPage does
+ */
+export type TodoAction =
+  | { type: 'add'; title: string }
+  | { type: 'toggle' | 'uncheck' | 'cancelEdit' | 'delete'; index: number }
+  | { type: 'edit'; index: number; title: string }
+  | { type: 'toggleAll' | 'clearCompleted' }
+  | { type: 'filter'; filter: FilterType };
+
+export type TodoActionType = TodoAction['type'];
+
+/** The action variant of one type, e.g. ActionOf<'edit'> has index and title */
+type ActionOf<K extends TodoActionType> = TodoAction & { type: K };
+
+export interface ModelTodo {
+  title: string;
+  completed: boolean;
+}
+
+/**
+ * Observable state of the todo app, as the model predicts it or as read from the page
+ */
+export interface TodoViewState {
+  /** Titles of the visible items, in order */
+  visible: string[];
+  /** Completion of the visible items, in order */
+  completed: boolean[];
+  /** Value of the "N items left" counter, null when the footer is hidden */
+  itemsLeft: number | null;
+  clearCompletedVisible: boolean;
+  /** Every stored todo with its id dropped */
+  stored: ModelTodo[];
+}
+
+export interface ModelRunResult {
+  actions: TodoAction[];
+  /** Index of the first step that diverged from the model, undefined when every step matched */
+  failedStep?: number;
+  /** Differences found at that step */
+  problems: string[];
+  /** State the model expected at that step */
+  expected?: TodoViewState;
+}
+
+export interface ModelExploreOptions {
+  /** Defaults to TODO_MODEL_SEED, else a random seed that is reported */
+  seed?: number;
+  /** Number of generated actions */
+  steps?: number;
+}
+
+export interface ModelExploreResult {
+  seed: number;
+  /** Generated sequence and its outcome */
+  run: ModelRunResult;
+  /** Minimal failing sequence, present when the generated one failed */
+  shrunk?: ModelRunResult;
+  /** Ready-to-paste test reproducing the shrunk failure */
+  reproduction?: string;
+}
+
+export interface TodoModelRunnerOptions {
+  /** TodoMVC URL every replay starts from */
+  url: string;
+  /** How long the UI may take to match the model after a step */
+  settleTimeout?: number;
+}
+
+/**
+ * How each action is applied to the page and written in a reproduction
+ */
+const ACTIONS: { [K in TodoActionType]: {
+  perform(todoPage: TodoPage, action: ActionOf<K>): Promise<TodoState>;
+  code(action: ActionOf<K>): string;
+} } = {
+  add: { perform: (todoPage, action) => todoPage.addTodo(action.title), code: action => `addTodo(${quote(action.title)})` },
+  toggle: { perform: (todoPage, action) => todoPage.toggleTodo(action.index), code: action => `toggleTodo(${action.index})` },
+  uncheck: { perform: (todoPage, action) => todoPage.uncheckTodo(action.index), code: action => `uncheckTodo(${action.index})` },
+  edit: { perform: (todoPage, action) => todoPage.editTodo(action.index, action.title), code: action => `editTodo(${action.index}, ${quote(action.title)})` },
+  cancelEdit: { perform: (todoPage, action) => todoPage.cancelEditTodo(action.index), code: action => `cancelEditTodo(${action.index})` },
+  delete: { perform: (todoPage, action) => todoPage.deleteTodo(action.index), code: action => `deleteTodo(${action.index})` },
+  toggleAll: { perform: todoPage => todoPage.toggleAllTodos(), code: () => 'toggleAllTodos()' },
+  clearCompleted: { perform: todoPage => todoPage.clearCompleted(), code: () => 'clearCompleted()' },
+  filter: { perform: (todoPage, action) => todoPage.filterBy(action.filter), code: action => `filterBy(${quote(action.filter)})` },
+};
+
+/**
+ * In-memory reference implementation of TodoMVC
+ * Knows which actions are possible in the current state (e.g. uncheck needs a visible
+ * completed item) and what the page should show after each of them.
+ */
+export class TodoModel {
+  private todos: ModelTodo[] = [];
+  private filter: FilterType = 'all';
+
+  /**
+   * Current todos, including hidden ones
+   */
+  get items(): ModelTodo[] {
+    return this.todos.map(todo => ({ ...todo }));
+  }
+
+  /**
+   * Check an action can be performed through the UI in the current state
+   * @param action - Action to check
+   */
+  canApply(action: TodoAction): boolean {
+    const visible = this.visibleTodos();
+    switch (action.type) {
+      case 'add':
+        return action.title.trim() !== '';
+      case 'toggle':
+        return action.index < visible.length && !visible[action.index].completed;
+      case 'uncheck':
+        return action.index < visible.length && visible[action.index].completed;
+      case 'edit':
+      case 'cancelEdit':
+      case 'delete':
+        return action.index < visible.length;
+      case 'toggleAll':
+      case 'filter':
+        return this.todos.length > 0;
+      case 'clearCompleted':
+        return this.todos.some(todo => todo.completed);
+    }
+  }
+
+  /**
+   * Apply an action
+   * @param action - Action to apply; must be applicable
+   */
+  apply(action: TodoAction): void {
+    if (!this.canApply(action)) {
+      throw new Error(`Action ${describeAction(action)} is not possible in the current state`);
+    }
+    const target = 'index' in action ? this.visibleTodos()[action.index] : undefined;
+    switch (action.type) {
+      case 'add':
+        this.todos.push({ title: action.title.trim(), completed: false });
+        break;
+      case 'toggle':
+      case 'uncheck':
+        (target as ModelTodo).completed = action.type === 'toggle';
+        break;
+      case 'edit': {
+        const title = action.title.trim();
+        if (title === '') this.todos = this.todos.filter(todo => todo !== target);
+        else (target as ModelTodo).title = title;
+        break;
+      }
+      case 'cancelEdit':
+        break;
+      case 'delete':
+        this.todos = this.todos.filter(todo => todo !== target);
+        break;
+      case 'toggleAll': {
+        const completed = !this.todos.every(todo => todo.completed);
+        this.todos.forEach(todo => { todo.completed = completed; });
+        break;
+      }
+      case 'clearCompleted':
+        this.todos = this.todos.filter(todo => !todo.completed);
+        break;
+      case 'filter':
+        this.filter = action.filter;
+        break;
+    }
+  }
+
+  /**
+   * State the page should show
+   */
+  expected(): TodoViewState {
+    const visible = this.visibleTodos();
+    return {
+      visible: visible.map(todo => todo.title),
+      completed: visible.map(todo => todo.completed),
+      itemsLeft: this.todos.length === 0 ? null : this.todos.filter(todo => !todo.completed).length,
+      clearCompletedVisible: this.todos.some(todo => todo.completed),
+      stored: this.items,
+    };
+  }
+
+  /**
+   * Draw a random action that is applicable in the current state
+   * @param random - Source of randomness
+   */
+  nextAction(random: SeededRandom): TodoAction {
+    const visible = this.visibleTodos();
+    const indexWhere = (predicate: (todo: ModelTodo) => boolean) => {
+      const candidates = visible.map((todo, index) => (predicate(todo) ? index : -1)).filter(index => index >= 0);
+      return candidates.length > 0 ? random.pick(candidates) : -1;
+    };
+    const candidates: TodoAction[] = [
+      { type: 'add', title: random.pick(TODO_MODEL_CONFIG.TITLES) },
+      { type: 'toggle', index: indexWhere(todo => !todo.completed) },
+      { type: 'uncheck', index: indexWhere(todo => todo.completed) },
+      { type: 'edit', index: indexWhere(() => true), title: editTitle(random) },
+      { type: 'cancelEdit', index: indexWhere(() => true) },
+      { type: 'delete', index: indexWhere(() => true) },
+      { type: 'toggleAll' },
+      { type: 'clearCompleted' },
+      { type: 'filter', filter: random.pick(['all', 'active', 'completed'] as const) },
+    ];
+    const possible = candidates.filter(action => !('index' in action && action.index < 0) && this.canApply(action));
+
+    // Weighted pick
+    const total = possible.reduce((sum, action) => sum + TODO_MODEL_CONFIG.WEIGHTS[action.type], 0);
+    let roll = random.next() * total;
+    return possible.find(action => (roll -= TODO_MODEL_CONFIG.WEIGHTS[action.type]) < 0) ?? possible[0];
+  }
+
+  /**
+   * Todos shown by the current filter
+   */
+  private visibleTodos(): ModelTodo[] {
+    if (this.filter === 'all') return this.todos;
+    return this.todos.filter(todo => todo.completed === (this.filter === 'completed'));
+  }
+}
+
+/**
+ * Generate a random action sequence; the same seed always yields the same sequence
+ * @param seed - Generator seed
+ * @param steps - Number of actions
+ */
+export function generateTodoActions(seed: number, steps: number = TODO_MODEL_CONFIG.DEFAULT_STEPS): TodoAction[] {
+  const random = new SeededRandom(seed);
+  const model = new TodoModel();
+  return Array.from({ length: steps }, () => {
+    const action = model.nextAction(random);
+    model.apply(action);
+    return action;
+  });
+}
+
+/**
+ * Check every action of a sequence is possible when replayed from an empty list
+ * @param actions - Sequence to check
+ */
+export function isValidSequence(actions: TodoAction[]): boolean {
+  const model = new TodoModel();
+  return actions.every(action => {
+    if (!model.canApply(action)) return false;
+    model.apply(action);
+    return true;
+  });
+}
+
+/**
+ * Replays action sequences through TodoPage and compares the page and localStorage
+ * with the model after every step
+ * Failing sequences are shrunk to a minimal reproduction, printed as a ready-to-paste test.
+ */
+export class TodoModelRunner {
+  private readonly todoPage: TodoPage;
+  private readonly storage: LocalStorageHelper;
+  private readonly url: string;
+  private readonly settleTimeout: number;
+  private readonly reproductions: string[] = [];
+
+  constructor(todoPage: TodoPage, storage: LocalStorageHelper, options: TodoModelRunnerOptions) {
+    this.todoPage = todoPage;
+    this.storage = storage;
+    this.url = options.url;
+    this.settleTimeout = options.settleTimeout ?? TODO_MODEL_CONFIG.SETTLE_TIMEOUT;
+  }
+
+  /**
+   * Replay a sequence from an empty list, stopping at the first divergence
+   * @param actions - Applicable action sequence
+   */
+  async run(actions: TodoAction[]): Promise<ModelRunResult> {
+    await this.reset();
+    const model = new TodoModel();
+
+    for (const [step, action] of actions.entries()) {
+      model.apply(action);
+      const expected = model.expected();
+      try {
+        await (ACTIONS[action.type].perform as (todoPage: TodoPage, action: TodoAction) => Promise<TodoState>)(this.todoPage, action);
+      } catch (error) {
+        // A post-condition that never held usually shows up as a state difference, which says more
+        const problems = await this.settle(expected);
+        return { actions, failedStep: step, problems: problems.length > 0 ? problems : [`${describeAction(action)} failed: ${firstLine(error)}`], expected };
+      }
+      const problems = await this.settle(expected);
+      if (problems.length > 0) {
+        return { actions, failedStep: step, problems, expected };
+      }
+    }
+    return { actions, problems: [] };
+  }
+
+  /**
+   * Generate a sequence from a seed, replay it and shrink it when it fails
+   * @param options - Seed and sequence length
+   */
+  async explore(options: ModelExploreOptions = {}): Promise<ModelExploreResult> {
+    const seed = options.seed ?? (Number(process.env.TODO_MODEL_SEED) || SeededRandom.randomSeed());
+    annotate('todo-model-seed', `${seed} (rerun with TODO_MODEL_SEED=${seed})`);
+
+    const run = await this.run(generateTodoActions(seed, options.steps));
+    if (run.failedStep === undefined) {
+      return { seed, run };
+    }
+    const shrunk = await this.shrink(run);
+    const reproduction = formatReproduction(shrunk, seed);
+    this.reproductions.push(reproduction);
+    return { seed, run, shrunk, reproduction };
+  }
+
+  /**
+   * Explore and fail with the shrunk reproduction when the app diverges from the model
+   * @param options - Seed and sequence length
+   */
+  async expectConforms(options: ModelExploreOptions = {}): Promise<ModelExploreResult> {
+    const result = await this.explore(options);
+    const { shrunk } = result;
+    expect(
+      shrunk?.problems ?? [],
+      shrunk && `Todo app diverged from the model (seed ${result.seed}) after ${shrunk.actions.length} step(s):\n` +
+        `${shrunk.actions.map(action => `  ${describeAction(action)}`).join('\n')}\n\nReproduction:\n${result.reproduction}`
+    ).toEqual([]);
+    return result;
+  }
+
+  /**
+   * Remove actions from a failing sequence while it keeps failing
+   * Chunks of decreasing size are dropped (delta debugging); candidates the model
+   * cannot replay, e.g. a toggle of an item that is no longer added, are skipped.
+   * @param failing - Failing run
+   * @returns The smallest failing run found within the replay budget
+   */
+  async shrink(failing: ModelRunResult): Promise<ModelRunResult> {
+    let best: ModelRunResult = { ...failing, actions: failing.actions.slice(0, (failing.failedStep as number) + 1) };
+    let chunk = Math.ceil(best.actions.length / 2);
+    let runs = 0;
+
+    while (chunk >= 1 && runs < TODO_MODEL_CONFIG.MAX_SHRINK_RUNS) {
+      let removed = false;
+      let start = 0;
+      while (start < best.actions.length && runs < TODO_MODEL_CONFIG.MAX_SHRINK_RUNS) {
+        const candidate = [...best.actions.slice(0, start), ...best.actions.slice(start + chunk)];
+        if (candidate.length === 0 || !isValidSequence(candidate)) {
+          start += chunk;
+          continue;
+        }
+        const result = await this.run(candidate);
+        runs++;
+        if (result.failedStep === undefined) {
+          start += chunk;
+          continue;
+        }
+        best = { ...result, actions: candidate.slice(0, result.failedStep + 1) };
+        removed = true;
+      }
+      if (!removed) chunk = Math.floor(chunk / 2);
+    }
+    return best;
+  }
+
+  /**
+   * Attach the reproductions found so far to the report
+   * @param testInfo - Running test
+   */
+  async attach(testInfo: TestInfo): Promise<void> {
+    if (this.reproductions.length === 0) return;
+    await testInfo.attach(TODO_MODEL_CONFIG.ATTACHMENT_NAME, { body: this.reproductions.join('\n\n'), contentType: 'text/plain' });
+  }
+
+  /**
+   * Read the observable state of the page and storage
+   */
+  async observe(): Promise<TodoViewState> {
+    const state = await this.todoPage.getState();
+    return {
+      visible: state.visible.map(todo => todo.title),
+      completed: state.visible.map(todo => todo.completed),
+      itemsLeft: state.itemsLeft,
+      clearCompletedVisible: state.clearCompletedVisible,
+      stored: state.stored.map(({ title, completed }) => ({ title, completed })),
+    };
+  }
+
+  /**
+   * Wait for the page to match the expected state
+   * @returns Differences still present when the settle timeout ran out
+   */
+  private async settle(expected: TodoViewState): Promise<string[]> {
+    let problems: string[] = [];
+    try {
+      await expect.poll(async () => {
+        problems = await this.observe().then(actual => diffTodoState(expected, actual), error => [`observing the page failed: ${firstLine(error)}`]);
+        return problems;
+      }, { timeout: this.settleTimeout, intervals: [...TODO_MODEL_CONFIG.POLL_INTERVALS] }).toEqual([]);
+    } catch {
+      // problems holds the last observed differences
+    }
+    return problems;
+  }
+
+  /**
+   * Open the app on a fresh document with empty storage and the "All" filter
+   */
+  private async reset(): Promise<void> {
+    // A hash-only URL change would not reload the app, so leave it first
+    await this.todoPage.goto('about:blank');
+    await this.todoPage.goto(this.url);
+    await this.storage.remove();
+    await this.todoPage.page.reload();
+  }
+}
+
+/**
+ * Differences between an expected and an observed state
+ * @param expected - State predicted by the model
+ * @param actual - State read from the page
+ * @returns One line per differing value, e.g. "/stored/0/completed: expected true, received false"
+ */
+export function diffTodoState(expected: TodoViewState, actual: TodoViewState): string[] {
+  return diffValues(expected, actual).map(change => {
+    const wanted = change.kind === 'added' ? 'nothing' : JSON.stringify(change.before);
+    const received = change.kind === 'removed' ? 'nothing' : JSON.stringify(change.after);
+    return `${change.path}: expected ${wanted}, received ${received}`;
+  });
+}
+
+/**
+ * Write a failing run as a test for tests/todo-improved.spec.ts
+ * The final assertions describe the state the model expected after the failing step.
+ * @param result - Failing run
+ * @param seed - Seed the run was generated from
+ */
+export function formatReproduction(result: ModelRunResult, seed?: number): string {
+  const expected = result.expected as TodoViewState;
+  const origin = seed === undefined ? '' : ` (seed ${seed})`;
+  const lines = [
+    `test('should match the model${origin}', async ({ todoPage, localStorageHelper }) => {`,
+    '  await todoPage.goto(TEST_DATA.urls.todoApp);',
+    ...result.actions.map(action => `  await todoPage.${(ACTIONS[action.type].code as (action: TodoAction) => string)(action)};`),
+    '',
+    ...result.problems.map(problem => `  // ${problem}`),
+    `  await expect(todoPage.todoTitles).toHaveText([${expected.visible.map(quote).join(', ')}]);`,
+    `  await expect(todoPage.todoItems).toHaveClass([${expected.completed.map(completed => quote(completed ? 'completed' : '')).join(', ')}]);`,
+    expected.itemsLeft === null
+      ? '  await expect(todoPage.todoCount).toBeHidden();'
+      : `  await expect(todoPage.todoCount).toHaveText(${quote(`${expected.itemsLeft} ${expected.itemsLeft === 1 ? 'item' : 'items'} left`)});`,
+    `  await expect(todoPage.clearCompletedButton).${expected.clearCompletedVisible ? 'toBeVisible' : 'toBeHidden'}();`,
+    '  expect((await localStorageHelper.getAllTodos()).map(({ title, completed }) => ({ title, completed }))).toEqual([',
+    ...expected.stored.map(todo => `    { title: ${quote(todo.title)}, completed: ${todo.completed} },`),
+    '  ]);',
+    '});',
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Short description of an action, e.g. "edit #1 '  feed the cat  '"
+ */
+export function describeAction(action: TodoAction): string {
+  const index = 'index' in action ? ` #${action.index}` : '';
+  const argument = action.type === 'add' || action.type === 'edit' ? ` ${quote(action.title)}` : action.type === 'filter' ? ` ${action.filter}` : '';
+  return `${action.type}${index}${argument}`;
+}
+
+/**
+ * Title for an edit: usually a new title, sometimes padded (trimmed by the app) or empty (deletes the item)
+ */
+function editTitle(random: SeededRandom): string {
+  const roll = random.next();
+  const title = random.pick(TODO_MODEL_CONFIG.TITLES);
+  if (roll < 0.1) return '';
+  if (roll < 0.25) return `  ${title}  `;
+  return title;
+}
+
+const quote = (value: string): string => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const firstLine = (error: unknown): string =>
+  (error instanceof Error ? error.message : String(error)).replace(/\u001b\[[0-9;]*m/g, '').split('\n')[0];
+
+/**
+ * Attach an annotation to the running test; a no-op outside of one
+ */
+function annotate(type: string, description: string): void {
+  try {
+    test.info().annotations.push({ type, description });
+  } catch {
+    // Not inside a running test
+  }
+}
@@ -0,0 +1,43 @@
+import { FullConfig } from '@playwright/test';
+import { StubServer } from '../helpers/stub-server.helper';
+import { createJsonPlaceholderServer } from './jsonplaceholder.server';
+import { createGraphQLServer } from './graphql.server';
+import { createTodoMvcServer } from './todomvc.server';
+
+/**
+ * Start the local stand-ins unless their URLs target real services
+ * API_BASE_URL (REST), GRAPHQL_URL (GraphQL) and TODO_APP_URL (TodoMVC) are exported so
+ * workers pick them up; the returned function is Playwright's global teardown.
+ * TODO_APP=demo keeps UI tests on the live demo.playwright.dev/todomvc.
+ */
+async function globalSetup(_config: FullConfig): Promise<(() => Promise<void>) | undefined> {
+  const servers: StubServer[] = [];
+
+  if (!process.env.API_BASE_URL) {
+    const server = createJsonPlaceholderServer();
+    process.env.API_BASE_URL = await server.start(Number(process.env.MOCK_API_PORT) || 0);
+    servers.push(server);
+  }
+
+  if (!process.env.GRAPHQL_URL) {
+    const server = createGraphQLServer();
+    process.env.GRAPHQL_URL = `${await server.start(Number(process.env.MOCK_GRAPHQL_PORT) || 0)}/graphql`;
+    servers.push(server);
+  }
+
+  if (!process.env.TODO_APP_URL && process.env.TODO_APP !== 'demo') {
+    const server = createTodoMvcServer();
+    process.env.TODO_APP_URL = `${await server.start(Number(process.env.MOCK_TODO_PORT) || 0)}/todomvc`;
+    servers.push(server);
+  }
+
+  if (servers.length === 0) {
+    return undefined;
+  }
+
+  return async () => {
+    await Promise.all(servers.map(server => server.stop()));
+  };
+}
+
+export default globalSetup;
@@ -0,0 +1,101 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GraphQLError, GraphQLSchema, buildSchema, graphql } from 'graphql';
+import { StubServer } from '../helpers/stub-server.helper';
+import { JsonPlaceholderDb, loadJsonPlaceholderSeed } from './jsonplaceholder.server';
+
+// Mock server configuration
+const GRAPHQL_MOCK_CONFIG = {
+  SCHEMA_PATH: path.join(__dirname, '..', 'contracts', 'jsonplaceholder.graphql'),
+  ENDPOINT: '/graphql',
+} as const;
+
+type Row = Record<string, any>;
+
+/**
+ * Create a local GraphQL stand-in driven by contracts/jsonplaceholder.graphql
+ * Resolves against the JSONPlaceholder seed, supports automatic persisted queries,
+ * and, like the REST stand-in, acknowledges mutations without persisting them.
+ * @param db - Seed collections, defaults to the bundled fixtures
+ * @param schemaSource - GraphQL SDL, defaults to the bundled schema
+ */
+export function createGraphQLServer(
+  db: JsonPlaceholderDb = loadJsonPlaceholderSeed(),
+  schemaSource: string = fs.readFileSync(GRAPHQL_MOCK_CONFIG.SCHEMA_PATH, 'utf-8')
+): StubServer {
+  const schema: GraphQLSchema = buildSchema(schemaSource);
+  const persisted = new Map<string, string>();
+
+  const byId = (rows: Row[], id: string) => rows.find(row => String(row.id) === String(id));
+  const notFound = (type: string, id: string) =>
+    new GraphQLError(`${type} ${id} not found`, { extensions: { code: 'NOT_FOUND' } });
+
+  // Nested fields are functions so graphql-js resolves them lazily
+  const post = (row: Row): Row => ({
+    ...row,
+    user: () => user(byId(db.users, row.userId) as Row),
+    comments: () => db.comments.filter(comment => comment.postId === row.id),
+  });
+  const user = (row: Row): Row => ({
+    ...row,
+    posts: () => db.posts.filter(candidate => candidate.userId === row.id).map(post),
+  });
+
+  const rootValue = {
+    post: ({ id }: { id: string }) => {
+      const row = byId(db.posts, id);
+      if (!row) throw notFound('Post', id);
+      return post(row);
+    },
+    posts: ({ userId, limit }: { userId?: string; limit?: number }) =>
+      db.posts
+        .filter(row => userId === undefined || String(row.userId) === String(userId))
+        .slice(0, limit ?? undefined)
+        .map(post),
+    user: ({ id }: { id: string }) => {
+      const row = byId(db.users, id);
+      if (!row) throw notFound('User', id);
+      return user(row);
+    },
+    users: () => db.users.map(user),
+    createPost: ({ input }: { input: Row }) => post({ ...input, userId: Number(input.userId), id: db.posts.length + 1 }),
+    deletePost: ({ id }: { id: string }) => Boolean(byId(db.posts, id)),
+  };
+
+  return new StubServer().on('POST', GRAPHQL_MOCK_CONFIG.ENDPOINT, async (request) => {
+    let body: Row;
+    try {
+      body = JSON.parse(request.body || '{}');
+    } catch {
+      return { status: 400, body: { errors: [{ message: 'Request body is not valid JSON' }] } };
+    }
+
+    const hash: string | undefined = body.extensions?.persistedQuery?.sha256Hash;
+    let source: string | undefined = body.query;
+    if (hash) {
+      if (source === undefined) {
+        source = persisted.get(hash);
+        if (source === undefined) {
+          return { body: { errors: [{ message: 'PersistedQueryNotFound', extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' } }] } };
+        }
+      } else if (createHash('sha256').update(source).digest('hex') !== hash) {
+        return { status: 400, body: { errors: [{ message: 'provided sha does not match query' }] } };
+      } else {
+        persisted.set(hash, source);
+      }
+    }
+    if (!source) {
+      return { status: 400, body: { errors: [{ message: 'Must provide query string.' }] } };
+    }
+
+    const result = await graphql({
+      schema,
+      source,
+      rootValue,
+      variableValues: body.variables,
+      operationName: body.operationName,
+    });
+    return { body: result };
+  });
+}
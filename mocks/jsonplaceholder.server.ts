@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { StubReply, StubRequest, StubServer } from '../helpers/stub-server.helper';
+
+// Mock server configuration
+const MOCK_CONFIG = {
+  SEED_DIR: path.join(__dirname, '..', 'data', 'jsonplaceholder'),
+  DEFAULT_PAGE_SIZE: 10,
+} as const;
+
+/**
+ * Seed collections served by the stand-in, keyed by resource name
+ * Seeded from JSONPlaceholder (MIT, © typicode) so assertions match the live API
+ */
+export type JsonPlaceholderDb = Record<'posts' | 'users' | 'comments', Record<string, any>[]>;
+
+// Parent resource -> foreign key used by nested routes such as /posts/1/comments
+const FOREIGN_KEYS: Record<string, string> = {
+  posts: 'postId',
+  users: 'userId',
+};
+
+/**
+ * Load the bundled seed data
+ */
+export function loadJsonPlaceholderSeed(): JsonPlaceholderDb {
+  const read = (name: string) => JSON.parse(fs.readFileSync(path.join(MOCK_CONFIG.SEED_DIR, `${name}.json`), 'utf-8'));
+  return { posts: read('posts'), users: read('users'), comments: read('comments') };
+}
+
+/**
+ * Create a local stand-in for jsonplaceholder.typicode.com
+ * Writes are acknowledged like the real service but never persisted, so runs stay deterministic
+ * @param db - Seed collections, defaults to the bundled fixtures
+ */
+export function createJsonPlaceholderServer(db: JsonPlaceholderDb = loadJsonPlaceholderSeed()): StubServer {
+  const collection = (name: string) => (db as Record<string, Record<string, any>[]>)[name];
+  const findById = (name: string, id: string) => collection(name)?.find(item => String(item.id) === id);
+  const parseBody = (request: StubRequest) => (request.body ? JSON.parse(request.body) : {});
+  const notFound: StubReply = { status: 404, body: {} };
+
+  return new StubServer()
+    .on('GET', '/:resource', (request) => {
+      const items = collection(request.params.resource);
+      return items ? list(request, items) : notFound;
+    })
+    .on('GET', '/:resource/:id', ({ params }) => {
+      const item = findById(params.resource, params.id);
+      return item ? { body: item } : notFound;
+    })
+    .on('GET', '/:parent/:id/:resource', (request) => {
+      const { parent, id, resource } = request.params;
+      const foreignKey = FOREIGN_KEYS[parent];
+      const items = collection(resource);
+      if (!foreignKey || !items || !findById(parent, id)) return notFound;
+      return list(request, items.filter(item => String(item[foreignKey]) === id));
+    })
+    .on('POST', '/:resource', (request) => {
+      const items = collection(request.params.resource);
+      if (!items) return notFound;
+      return { status: 201, body: { ...parseBody(request), id: items.length + 1 } };
+    })
+    .on('PUT', '/:resource/:id', (request) => {
+      const { resource, id } = request.params;
+      if (!findById(resource, id)) return notFound;
+      return { body: { ...parseBody(request), id: Number(id) } };
+    })
+    .on('PATCH', '/:resource/:id', (request) => {
+      const { resource, id } = request.params;
+      const item = findById(resource, id);
+      return item ? { body: { ...item, ...parseBody(request), id: Number(id) } } : notFound;
+    })
+    .on('DELETE', '/:resource/:id', ({ params }) => {
+      return findById(params.resource, params.id) ? { body: {} } : notFound;
+    });
+}
+
+/**
+ * Filter by query fields and paginate with _page/_limit like json-server
+ * Paginated responses carry X-Total-Count and an RFC 5988 Link header
+ */
+function list(request: StubRequest, items: Record<string, any>[]): StubReply {
+  let result = items;
+  request.query.forEach((value, key) => {
+    if (!key.startsWith('_')) {
+      result = result.filter(item => String(item[key]) === value);
+    }
+  });
+
+  const limit = request.query.has('_limit') ? Number(request.query.get('_limit')) : undefined;
+  const page = request.query.has('_page') ? Number(request.query.get('_page')) : undefined;
+  if (page === undefined) {
+    return { body: limit === undefined ? result : result.slice(0, limit) };
+  }
+
+  const size = limit ?? MOCK_CONFIG.DEFAULT_PAGE_SIZE;
+  const last = Math.max(1, Math.ceil(result.length / size));
+  const link = (target: number, rel: string) => {
+    const query = new URLSearchParams(request.query);
+    query.set('_page', String(target));
+    query.set('_limit', String(size));
+    return `<http://${request.headers.host}${request.path}?${query}>; rel="${rel}"`;
+  };
+  const links = [link(1, 'first'), ...(page > 1 ? [link(page - 1, 'prev')] : []), ...(page < last ? [link(page + 1, 'next')] : []), link(last, 'last')];
+
+  return {
+    headers: { 'X-Total-Count': String(result.length), Link: links.join(', ') },
+    body: result.slice((page - 1) * size, page * size),
+  };
+}
@@ -0,0 +1,21 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { StubServer } from '../helpers/stub-server.helper';
+
+// Mock server configuration
+const TODOMVC_MOCK_CONFIG = {
+  APP_PATH: path.join(__dirname, 'todomvc', 'index.html'),
+  ROUTE: '/todomvc',
+} as const;
+
+/**
+ * Create a local stand-in for demo.playwright.dev/todomvc
+ * Serves a self-contained TodoMVC with the demo's data-testids, hash routes and
+ * "react-todos" storage format; the app lives at `${baseUrl}/todomvc`.
+ * @param html - App page, defaults to the bundled mocks/todomvc/index.html
+ */
+export function createTodoMvcServer(html: string = fs.readFileSync(TODOMVC_MOCK_CONFIG.APP_PATH, 'utf-8')): StubServer {
+  return new StubServer()
+    .on('GET', TODOMVC_MOCK_CONFIG.ROUTE, () => ({ headers: { 'Content-Type': 'text/html; charset=utf-8' }, body: html }))
+    .on('GET', '/', () => ({ status: 302, headers: { Location: TODOMVC_MOCK_CONFIG.ROUTE } }));
+}
@@ -73,10 +73,8 @@ export class PlaywrightHomePage extends BasePage {
    */
   async searchFor(query: string): Promise<void> {
     await this.openSearch();
-    // Wait for search modal to open
-    await this.page.waitForTimeout(500);
     
-    // Type in search box if available
+    // Type in search box once the modal shows it, if the site has one
     const searchInput = this.page.locator('input[type="search"]').first();
     if (await this.isVisible(searchInput)) {
       await searchInput.fill(query);
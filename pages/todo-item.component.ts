@@ -0,0 +1,156 @@
+import { Locator } from '@playwright/test';
+import type { TodoPage, TodoItemState, TodoState } from './todo.page';
+
+/**
+ * How a todo is addressed: a zero-based index among the visible items, its exact
+ * (trimmed) title, a pattern tested against the title, or a predicate
+ */
+export type TodoMatcher = number | string | RegExp | ((todo: TodoItemState, index: number) => boolean);
+
+/**
+ * Component Object for a single row of the todo list
+ * The matcher is resolved against the rendered list each time an action runs, so the
+ * same component keeps pointing at its todo when filters or deletions shift indices.
+ */
+export class TodoItemComponent {
+  readonly todoPage: TodoPage;
+  readonly matcher: TodoMatcher;
+
+  constructor(todoPage: TodoPage, matcher: TodoMatcher) {
+    this.todoPage = todoPage;
+    this.matcher = matcher;
+  }
+
+  /**
+   * Readable form of the matcher, e.g. 'todo "feed the cat"' or 'todo matching /cat/'
+   */
+  get description(): string {
+    return describeTodoMatcher(this.matcher);
+  }
+
+  /**
+   * Resolve the matcher to the index of exactly one visible todo
+   * @throws Error when no visible todo matches, or more than one does
+   * @returns Zero-based index among the visible todos
+   */
+  async index(): Promise<number> {
+    const state = await this.todoPage.getState();
+    const matches = state.visible
+      .map((todo, index) => ({ todo, index }))
+      .filter(({ todo, index }) => matchesTodo(this.matcher, todo, index));
+
+    if (matches.length === 1) {
+      return matches[0].index;
+    }
+    if (matches.length > 1) {
+      throw new Error(
+        `${matches.length} visible todos match ${this.description}: ${matches.map(({ todo, index }) => formatTodo(todo, index)).join(', ')}. ` +
+        'Use a more specific title, pattern or predicate.'
+      );
+    }
+
+    const hidden = typeof this.matcher !== 'number' && state.filter !== 'all'
+      && state.stored.some((todo, index) => matchesTodo(this.matcher, todo, index));
+    const visible = state.visible.length > 0 ? state.visible.map(formatTodo).join(', ') : '(none)';
+    throw new Error(
+      `No visible todo matches ${this.description}` +
+      (hidden ? ` (a stored todo does, but the "${state.filter}" filter hides it)` : ` (filter: ${state.filter})`) +
+      `. Visible todos: ${visible}`
+    );
+  }
+
+  /**
+   * Locator of the row, resolved now
+   * @returns The matching todo item
+   */
+  async locator(): Promise<Locator> {
+    return this.todoPage.todoItems.nth(await this.index());
+  }
+
+  /**
+   * Complete the todo; an already completed todo is left as is
+   * @returns State after the todo was completed
+   */
+  async toggle(): Promise<TodoState> {
+    return await this.todoPage.toggleTodo(await this.index());
+  }
+
+  /**
+   * Reopen a completed todo
+   * @returns State after the todo was reopened
+   */
+  async uncheck(): Promise<TodoState> {
+    return await this.todoPage.uncheckTodo(await this.index());
+  }
+
+  /**
+   * Rename the todo; blank text deletes it
+   * @param newText - New text for the todo
+   * @returns State after the edit was saved
+   */
+  async edit(newText: string): Promise<TodoState> {
+    return await this.todoPage.editTodo(await this.index(), newText);
+  }
+
+  /**
+   * Open the edit box and close it with Escape
+   * @returns State after editing was closed
+   */
+  async cancelEdit(): Promise<TodoState> {
+    return await this.todoPage.cancelEditTodo(await this.index());
+  }
+
+  /**
+   * Delete the todo
+   * @returns State after the todo was removed
+   */
+  async delete(): Promise<TodoState> {
+    return await this.todoPage.deleteTodo(await this.index());
+  }
+
+  /**
+   * Check if the todo is completed
+   * @returns True if the row is rendered as completed
+   */
+  async isCompleted(): Promise<boolean> {
+    return await this.todoPage.isTodoCompleted(await this.index());
+  }
+
+  /**
+   * Get the rendered title
+   * @returns Todo text
+   */
+  async getTitle(): Promise<string> {
+    return await this.todoPage.getTodoText(await this.index());
+  }
+}
+
+/**
+ * Check a todo against a matcher
+ * @param matcher - Index, exact title, title pattern or predicate
+ * @param todo - Title and completion of the todo
+ * @param index - Position of the todo in its list
+ */
+export function matchesTodo(matcher: TodoMatcher, todo: TodoItemState, index: number): boolean {
+  if (typeof matcher === 'number') return index === matcher;
+  if (typeof matcher === 'string') return todo.title.trim() === matcher.trim();
+  if (matcher instanceof RegExp) return new RegExp(matcher.source, matcher.flags.replace(/[gy]/g, '')).test(todo.title);
+  return matcher(todo, index);
+}
+
+/**
+ * Describe a matcher for messages, e.g. 'todo #1', 'todo "feed the cat"', 'todo matching /cat/'
+ */
+export function describeTodoMatcher(matcher: TodoMatcher): string {
+  if (typeof matcher === 'number') return `todo #${matcher}`;
+  if (typeof matcher === 'string') return `todo "${matcher.trim()}"`;
+  if (matcher instanceof RegExp) return `todo matching ${matcher}`;
+  return `todo matching predicate${matcher.name ? ` ${matcher.name}` : ''}`;
+}
+
+/**
+ * One todo for messages, e.g. '#0 "feed the cat" (completed)'
+ */
+function formatTodo(todo: TodoItemState, index: number): string {
+  return `#${index} "${todo.title}"${todo.completed ? ' (completed)' : ''}`;
+}
@@ -1,8 +1,62 @@
-import { Page, Locator } from '@playwright/test';
+import { Page, Locator, expect } from '@playwright/test';
 import { BasePage } from './base.page';
+import { LocalStorageHelper, Todo } from '../helpers/localStorage.helper';
+import { StorageChange, diffValues } from '../helpers/storage.helper';
+import { TodoItemComponent, TodoMatcher, describeTodoMatcher } from './todo-item.component';
+
+// Todo page configuration
+const TODO_PAGE_CONFIG = {
+  POLL_INTERVALS: [25, 50, 100, 250],
+} as const;
 
 export type FilterType = 'all' | 'active' | 'completed';
 
+export interface TodoItemState {
+  title: string;
+  completed: boolean;
+}
+
+/**
+ * Snapshot of the rendered list and the stored todos, returned by every action
+ */
+export interface TodoState {
+  /** Items rendered by the current filter, in order */
+  visible: TodoItemState[];
+  /** Every todo in localStorage */
+  stored: Todo[];
+  /** Filter selected by the URL hash */
+  filter: FilterType;
+  /** Value of the "N items left" counter, null when the footer is hidden */
+  itemsLeft: number | null;
+  clearCompletedVisible: boolean;
+}
+
+/**
+ * The parts of the page that are derived from the stored todos
+ */
+export interface TodoView {
+  /** Items shown by the filter, in storage order */
+  visible: TodoItemState[];
+  /** Footer counter, e.g. "2 items left"; null when the footer is hidden */
+  countText: string | null;
+  clearCompletedVisible: boolean;
+}
+
+export interface TodoConsistencyReport {
+  filter: FilterType;
+  stored: Todo[];
+  /** What the page should render for the stored todos */
+  expected: TodoView;
+  rendered: TodoView;
+  /** One entry per disagreement, with JSON pointers into TodoView */
+  differences: StorageChange[];
+}
+
+export interface TodoConsistencyOptions {
+  /** How long UI and storage may take to agree, in milliseconds */
+  timeout?: number;
+}
+
 /**
  * Page Object for Todo MVC application
  * Implements methods for interacting with todo items and filters
@@ -15,20 +69,29 @@ export class TodoPage extends BasePage {
   readonly todoCount: Locator;
   readonly toggleAllCheckbox: Locator;
   readonly clearCompletedButton: Locator;
+  readonly editInputs: Locator;
   readonly filterLinks: {
     all: Locator;
     active: Locator;
     completed: Locator;
   };
 
-  constructor(page: Page) {
+  private readonly storage: LocalStorageHelper;
+
+  /**
+   * @param page - Playwright page
+   * @param storage - Reads the stored todos that actions wait for
+   */
+  constructor(page: Page, storage: LocalStorageHelper = new LocalStorageHelper(page)) {
     super(page);
+    this.storage = storage;
     this.newTodoInput = page.getByPlaceholder('What needs to be done?');
     this.todoItems = page.getByTestId('todo-item');
     this.todoTitles = page.getByTestId('todo-title');
     this.todoCount = page.getByTestId('todo-count');
     this.toggleAllCheckbox = page.getByLabel('Mark all as complete');
     this.clearCompletedButton = page.getByRole('button', { name: 'Clear completed' });
+    this.editInputs = this.todoItems.getByRole('textbox', { name: 'Edit' });
     this.filterLinks = {
       all: page.getByRole('link', { name: 'All' }),
       active: page.getByRole('link', { name: 'Active' }),
@@ -40,99 +103,170 @@ export class TodoPage extends BasePage {
   
   /**
    * Add a single todo item
+   * Waits until the todo is stored and the input is cleared; blank text is ignored by the app.
    * @param text - Todo text to add
+   * @returns State after the todo was added
    */
-  async addTodo(text: string): Promise<void> {
+  async addTodo(text: string): Promise<TodoState> {
+    const before = await this.getState();
     await this.safeFill(this.newTodoInput, text);
     await this.newTodoInput.press('Enter');
-    await this.page.waitForTimeout(100); // Small wait for state update
+    if (text.trim() === '') {
+      return await this.getState();
+    }
+
+    const expectedVisible = before.filter === 'completed' ? before.visible.length : before.visible.length + 1;
+    return await this.waitForState(
+      state => state.stored.length === before.stored.length + 1 && state.visible.length === expectedVisible,
+      `todo "${text.trim()}" should be added`,
+      async () => (await this.newTodoInput.inputValue()) === ''
+    );
   }
 
   /**
    * Add multiple todo items
    * @param todos - Array of todo texts to add
+   * @returns State after the last todo was added
    */
-  async addMultipleTodos(todos: string[]): Promise<void> {
+  async addMultipleTodos(todos: string[]): Promise<TodoState> {
+    let state = await this.getState();
     for (const todo of todos) {
-      await this.addTodo(todo);
+      state = await this.addTodo(todo);
     }
+    return state;
   }
 
   /**
-   * Toggle (check/uncheck) a todo by index
-   * @param index - Zero-based index of the todo
+   * Address a single visible todo
+   * The matcher is resolved when an action runs; missing or ambiguous matches throw.
+   * @param todo - Index, exact title, title pattern or predicate, e.g. 'feed the cat'
+   * @returns Component with the row's actions, e.g. todoPage.item('feed the cat').toggle()
    */
-  async toggleTodo(index: number): Promise<void> {
-    const checkbox = this.todoItems.nth(index).getByRole('checkbox');
-    await checkbox.check();
+  item(todo: TodoMatcher): TodoItemComponent {
+    return new TodoItemComponent(this, todo);
+  }
+
+  /**
+   * Toggle (check/uncheck) a todo
+   * Completes the todo; an already completed todo is left as is.
+   * @param todo - Zero-based index, title, title pattern or predicate
+   * @returns State after the todo was completed
+   */
+  async toggleTodo(todo: TodoMatcher): Promise<TodoState> {
+    return await this.setCompleted(todo, true);
   }
 
   /**
    * Uncheck a completed todo
-   * @param index - Zero-based index of the todo
+   * @param todo - Zero-based index, title, title pattern or predicate
+   * @returns State after the todo was reopened
    */
-  async uncheckTodo(index: number): Promise<void> {
-    const checkbox = this.todoItems.nth(index).getByRole('checkbox');
-    await checkbox.uncheck();
+  async uncheckTodo(todo: TodoMatcher): Promise<TodoState> {
+    return await this.setCompleted(todo, false);
   }
 
   /**
-   * Delete a todo by index
-   * @param index - Zero-based index of the todo
+   * Delete a todo
+   * @param todo - Zero-based index, title, title pattern or predicate
+   * @returns State after the todo was removed
    */
-  async deleteTodo(index: number): Promise<void> {
+  async deleteTodo(todo: TodoMatcher): Promise<TodoState> {
+    const index = await this.resolveIndex(todo);
+    const before = await this.getState();
     const todoItem = this.todoItems.nth(index);
     await todoItem.hover();
     await todoItem.getByRole('button', { name: 'Delete' }).click();
+    return await this.waitForState(
+      state => state.stored.length === before.stored.length - 1 && state.visible.length === before.visible.length - 1,
+      `${describeTodoMatcher(todo)} should be deleted`
+    );
   }
 
   /**
    * Edit a todo item
-   * @param index - Zero-based index of the todo
+   * Blank text deletes the todo, as in TodoMVC.
+   * @param todo - Zero-based index, title, title pattern or predicate
    * @param newText - New text for the todo
+   * @returns State after the edit was saved
    */
-  async editTodo(index: number, newText: string): Promise<void> {
+  async editTodo(todo: TodoMatcher, newText: string): Promise<TodoState> {
+    const index = await this.resolveIndex(todo);
+    const before = await this.getState();
     const todoItem = this.todoItems.nth(index);
     await todoItem.dblclick();
     
     const editInput = todoItem.getByRole('textbox', { name: 'Edit' });
     await editInput.fill(newText);
     await editInput.press('Enter');
+
+    const title = newText.trim();
+    return await this.waitForState(
+      state => title === ''
+        ? state.stored.length === before.stored.length - 1
+        : state.stored.length === before.stored.length && state.stored.some(todo => todo.title === title),
+      title === '' ? `${describeTodoMatcher(todo)} should be deleted by an empty edit` : `${describeTodoMatcher(todo)} should be renamed to "${title}"`,
+      async () => !(await this.editInputs.isVisible())
+    );
   }
 
   /**
    * Cancel editing a todo
-   * @param index - Zero-based index of the todo
+   * @param todo - Zero-based index, title, title pattern or predicate
+   * @returns State after editing was closed, unchanged otherwise
    */
-  async cancelEditTodo(index: number): Promise<void> {
-    const todoItem = this.todoItems.nth(index);
+  async cancelEditTodo(todo: TodoMatcher): Promise<TodoState> {
+    const todoItem = this.todoItems.nth(await this.resolveIndex(todo));
     await todoItem.dblclick();
     
     const editInput = todoItem.getByRole('textbox', { name: 'Edit' });
     await editInput.press('Escape');
+    await this.waitForElementHidden(this.editInputs);
+    return await this.getState();
   }
 
   /**
    * Toggle all todos (mark all as complete or incomplete)
+   * @returns State after every todo was completed, or reopened when all already were
    */
-  async toggleAllTodos(): Promise<void> {
+  async toggleAllTodos(): Promise<TodoState> {
+    const before = await this.getState();
+    const completed = !before.stored.every(todo => todo.completed);
     await this.safeClick(this.toggleAllCheckbox);
+    return await this.waitForState(
+      state => state.stored.every(todo => todo.completed === completed) && state.visible.every(todo => todo.completed === completed),
+      `every todo should be ${completed ? 'completed' : 'active'}`
+    );
   }
 
   /**
    * Clear all completed todos
+   * @returns State after completed todos were removed
    */
-  async clearCompleted(): Promise<void> {
+  async clearCompleted(): Promise<TodoState> {
+    const remaining = (await this.getState()).stored.filter(todo => !todo.completed).length;
     await this.safeClick(this.clearCompletedButton);
+    return await this.waitForState(
+      state => state.stored.length === remaining && !state.clearCompletedVisible,
+      'completed todos should be cleared'
+    );
   }
 
   /**
    * Filter todos by status
+   * Waits for the URL hash to change and the filter link to be selected.
    * @param filter - Filter type: 'all', 'active', or 'completed'
+   * @returns State shown by the new filter
    */
-  async filterBy(filter: FilterType): Promise<void> {
+  async filterBy(filter: FilterType): Promise<TodoState> {
+    // The app re-renders on hashchange, after the URL changed: wait for the list to follow
+    const shown = (todo: Todo) => filter === 'all' || todo.completed === (filter === 'completed');
     await this.safeClick(this.filterLinks[filter]);
-    await this.page.waitForTimeout(100); // Small wait for filter to apply
+    return await this.waitForState(
+      state => state.filter === filter && JSON.stringify(state.visible) ===
+        JSON.stringify(state.stored.filter(shown).map(({ title, completed }) => ({ title, completed }))),
+      `the "${filter}" filter should be applied`,
+      async () => /\bselected\b/.test(await this.filterLinks[filter].getAttribute('class') ?? '')
+    );
   }
 
   // Getters
@@ -183,11 +317,11 @@ export class TodoPage extends BasePage {
 
   /**
    * Check if a todo is completed
-   * @param index - Zero-based index
+   * @param todo - Zero-based index, title, title pattern or predicate
    * @returns True if todo is completed
    */
-  async isTodoCompleted(index: number): Promise<boolean> {
-    const todoItem = this.todoItems.nth(index);
+  async isTodoCompleted(todo: TodoMatcher): Promise<boolean> {
+    const todoItem = this.todoItems.nth(await this.resolveIndex(todo));
     const classes = await todoItem.getAttribute('class') || '';
     return classes.includes('completed');
   }
@@ -200,8 +334,76 @@ export class TodoPage extends BasePage {
     return await this.isVisible(this.clearCompletedButton);
   }
 
+  /**
+   * Read the title and completion of every rendered todo
+   * @returns Visible todos, in order
+   */
+  async getVisibleTodos(): Promise<TodoItemState[]> {
+    return await this.todoItems.evaluateAll(items => items.map(item => ({
+      title: item.querySelector('[data-testid="todo-title"]')?.textContent ?? '',
+      completed: item.classList.contains('completed'),
+    })));
+  }
+
+  /**
+   * Read the rendered list and the stored todos in one go
+   * @returns Current state of the app
+   */
+  async getState(): Promise<TodoState> {
+    const visible = await this.getVisibleTodos();
+    const countText = await this.todoCount.isVisible() ? await this.todoCount.textContent() : null;
+    const hash = new URL(this.page.url()).hash.replace(/^#\/?/, '');
+    return {
+      visible,
+      stored: await this.storage.getAllTodos(),
+      filter: hash === 'active' || hash === 'completed' ? hash : 'all',
+      itemsLeft: countText === null ? null : Number(countText.match(/\d+/)?.[0] ?? NaN),
+      clearCompletedVisible: await this.clearCompletedButton.isVisible(),
+    };
+  }
+
+  /**
+   * Compare the rendered list with the stored todos once
+   * @returns Both views and their differences, empty when they agree
+   */
+  async checkTodoStateConsistency(): Promise<TodoConsistencyReport> {
+    const state = await this.getState();
+    const rendered: TodoView = {
+      visible: state.visible,
+      countText: state.itemsLeft === null ? null : (await this.todoCount.textContent() ?? '').trim(),
+      clearCompletedVisible: state.clearCompletedVisible,
+    };
+    const expected = expectedTodoView(state.stored, state.filter);
+    return { filter: state.filter, stored: state.stored, expected, rendered, differences: diffValues(expected, rendered) };
+  }
+
   // Verification helpers
   
+  /**
+   * Assert the rendered list agrees with localStorage under the current filter
+   * Checks order, titles, completion, the "N items left" counter and the
+   * "Clear completed" button, retrying until the timeout since the two may briefly lag.
+   * @param options - Retry timeout
+   * @returns The consistent report
+   */
+  async expectTodoStateConsistent(options?: TodoConsistencyOptions): Promise<TodoConsistencyReport> {
+    let report = await this.checkTodoStateConsistency();
+    try {
+      await expect.poll(async () => {
+        report = await this.checkTodoStateConsistency();
+        return report.differences.length;
+      }, {
+        timeout: options?.timeout ?? this.defaultTimeout,
+        intervals: [...TODO_PAGE_CONFIG.POLL_INTERVALS],
+      }).toBe(0);
+    } catch {
+      // report holds the last observed differences
+    }
+    expect(report.differences, formatTodoInconsistencies(report)).toEqual([]);
+    return report;
+  }
+
+
   /**
    * Verify a todo exists by text
    * @param text - Todo text to search for
@@ -228,4 +430,86 @@ export class TodoPage extends BasePage {
   async verifyPageLoaded(): Promise<void> {
     await this.waitForElement(this.newTodoInput);
   }
+
+  /**
+   * Check or uncheck a todo and wait for the completed count in storage to follow
+   * click() rather than check(): under the Active filter the item disappears once
+   * checked, so check() could never confirm the new state.
+   */
+  private async setCompleted(todo: TodoMatcher, completed: boolean): Promise<TodoState> {
+    const index = await this.resolveIndex(todo);
+    const before = await this.getState();
+    const checkbox = this.todoItems.nth(index).getByRole('checkbox');
+    if ((await checkbox.isChecked()) === completed) {
+      return before;
+    }
+
+    const completedBefore = before.stored.filter(todo => todo.completed).length;
+    await checkbox.click();
+    return await this.waitForState(
+      state => state.stored.filter(todo => todo.completed).length === completedBefore + (completed ? 1 : -1),
+      `${describeTodoMatcher(todo)} should be ${completed ? 'completed' : 'active'}`
+    );
+  }
+
+  /**
+   * Numbers are used as is, as before; titles, patterns and predicates must match exactly one visible todo
+   */
+  private async resolveIndex(todo: TodoMatcher): Promise<number> {
+    return typeof todo === 'number' ? todo : await this.item(todo).index();
+  }
+
+  /**
+   * Poll the app state until an action's post-condition holds
+   * @param predicate - Post-condition on the state
+   * @param description - Post-condition shown when the wait times out
+   * @param settled - Extra check on the page, e.g. the edit box being closed
+   * @returns The first state satisfying the post-condition
+   */
+  private async waitForState(
+    predicate: (state: TodoState) => boolean,
+    description: string,
+    settled: () => Promise<boolean> = async () => true
+  ): Promise<TodoState> {
+    let matched: TodoState | undefined;
+    await expect.poll(async () => {
+      // settled() first, so the snapshot is taken after the page caught up
+      const ready = await settled();
+      const state = await this.getState();
+      matched = ready && predicate(state) ? state : undefined;
+      return matched !== undefined;
+    }, {
+      message: `After the action, ${description}`,
+      timeout: this.defaultTimeout,
+      intervals: [...TODO_PAGE_CONFIG.POLL_INTERVALS],
+    }).toBe(true);
+    return matched as TodoState;
+  }
+}
+
+/**
+ * What TodoMVC renders for the stored todos
+ * @param stored - Todos in localStorage
+ * @param filter - Filter selected by the URL hash
+ */
+export function expectedTodoView(stored: Todo[], filter: FilterType): TodoView {
+  const active = stored.filter(todo => !todo.completed).length;
+  const shown = { all: () => true, active: (todo: Todo) => !todo.completed, completed: (todo: Todo) => todo.completed }[filter];
+  return {
+    visible: stored.filter(shown).map(({ title, completed }) => ({ title, completed })),
+    countText: stored.length === 0 ? null : `${active} ${active === 1 ? 'item' : 'items'} left`,
+    clearCompletedVisible: active < stored.length,
+  };
+}
+
+/**
+ * One line per difference, e.g. "/visible/1/completed: storage says true, page shows false"
+ */
+export function formatTodoInconsistencies(report: TodoConsistencyReport): string {
+  const lines = report.differences.map(change => {
+    const expected = change.kind === 'added' ? 'nothing' : JSON.stringify(change.before);
+    const rendered = change.kind === 'removed' ? 'nothing' : JSON.stringify(change.after);
+    return `  ${change.path}: storage says ${expected}, page shows ${rendered}`;
+  });
+  return [`Rendered todos should match localStorage under the "${report.filter}" filter`, ...lines].join('\n');
 }
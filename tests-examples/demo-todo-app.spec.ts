@@ -1,7 +1,8 @@
 import { test, expect, type Page } from '@playwright/test';
 
 test.beforeEach(async ({ page }) => {
-  await page.goto('https://demo.playwright.dev/todomvc');
+  // Local TodoMVC stand-in when run through the repo config (see mocks/global-setup.ts)
+  await page.goto(process.env.TODO_APP_URL || 'https://demo.playwright.dev/todomvc');
 });
 
 const TODO_ITEMS = [
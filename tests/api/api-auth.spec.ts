@@ -0,0 +1,177 @@
+import { test, expect } from '../../fixtures/test-fixtures';
+import { ApiHelper } from '../../helpers/api.helper';
+import { ApiKeyProvider, BasicAuthProvider, BearerTokenProvider, OAuth2Provider } from '../../helpers/api.auth';
+import { StubServer } from '../../helpers/stub-server.helper';
+
+test.describe('ApiHelper Authentication Providers', () => {
+  const server = new StubServer();
+  const validTokens = new Set<string>();
+  let issued = 0;
+  let expiresIn = 3600;
+
+  test.beforeAll(async () => {
+    server
+      // Stand-in OAuth2 token endpoint
+      .on('POST', '/oauth/token', ({ body }) => {
+        const form = new URLSearchParams(body);
+        const grant = form.get('grant_type');
+        const validClient = form.get('client_id') === 'suite' && form.get('client_secret') === 'secret';
+        const validUser = grant !== 'password' || (form.get('username') === 'jane' && form.get('password') === 'pw');
+
+        if (!validClient || !validUser) {
+          return { status: 401, body: { error: 'invalid_client' } };
+        }
+
+        const token = `${grant}-token-${++issued}`;
+        validTokens.add(token);
+        return { status: 200, body: { access_token: token, token_type: 'bearer', expires_in: expiresIn } };
+      })
+      .on('GET', '/whoami', ({ headers, query }) => {
+        const authorization = headers.authorization || '';
+        const token = authorization.replace(/^Bearer /, '');
+        if (authorization.startsWith('Bearer ') && !validTokens.has(token) && token !== 'static') {
+          return { status: 401, body: { error: 'invalid_token' } };
+        }
+        return { status: 200, body: { authorization, apiKey: headers['x-api-key'] || query.get('api_key') } };
+      });
+    await server.start();
+  });
+
+  test.beforeEach(() => {
+    OAuth2Provider.clearCache();
+    validTokens.clear();
+    issued = 0;
+    expiresIn = 3600;
+    server.reset();
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  const tokenRequests = () => server.requests.filter(r => r.path === '/oauth/token').length;
+
+  test('should send a static bearer token', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, server.url, { auth: new BearerTokenProvider('static') });
+
+    const result = await apiHelper.get('/whoami');
+
+    expect(result.data.authorization).toBe('Bearer static');
+  });
+
+  test('should send basic credentials', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, server.url).setAuth(new BasicAuthProvider('jane', 'pw'));
+
+    const result = await apiHelper.get('/whoami');
+
+    expect(result.data.authorization).toBe(`Basic ${Buffer.from('jane:pw').toString('base64')}`);
+  });
+
+  test('should send an API key as a header or query parameter', async ({ request }) => {
+    const headerHelper = new ApiHelper(request, server.url, { auth: new ApiKeyProvider({ key: 'k-1' }) });
+    const queryHelper = new ApiHelper(request, server.url, {
+      auth: new ApiKeyProvider({ key: 'k-2', name: 'api_key', in: 'query' }),
+    });
+
+    expect((await headerHelper.get('/whoami')).data.apiKey).toBe('k-1');
+    expect((await queryHelper.get('/whoami')).data.apiKey).toBe('k-2');
+  });
+
+  test('should cache client-credentials tokens across helpers', async ({ request }) => {
+    const options = { tokenUrl: `${server.url}/oauth/token`, clientId: 'suite', clientSecret: 'secret' };
+    const first = new ApiHelper(request, server.url, { auth: new OAuth2Provider({ ...options, grantType: 'client_credentials' }) });
+    const second = new ApiHelper(request, server.url, { auth: new OAuth2Provider({ ...options, grantType: 'client_credentials' }) });
+
+    await Promise.all([first.get('/whoami'), first.get('/whoami')]);
+    const result = await second.get('/whoami');
+
+    expect(result.data.authorization).toBe('Bearer client_credentials-token-1');
+    expect(tokenRequests()).toBe(1);
+  });
+
+  test('should not share cached tokens between different credentials', async ({ request }) => {
+    const options = { tokenUrl: `${server.url}/oauth/token`, clientId: 'suite', grantType: 'client_credentials' as const };
+    const valid = new ApiHelper(request, server.url, { auth: new OAuth2Provider({ ...options, clientSecret: 'secret' }) });
+    const wrong = new ApiHelper(request, server.url, { auth: new OAuth2Provider({ ...options, clientSecret: 'wrong' }) });
+
+    await valid.get('/whoami');
+
+    await expect(wrong.get('/whoami')).rejects.toThrow(/failed with status 401/);
+    expect(tokenRequests()).toBe(2);
+  });
+
+  test('should request a password-grant token', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, server.url, {
+      auth: new OAuth2Provider({
+        tokenUrl: `${server.url}/oauth/token`,
+        clientId: 'suite',
+        clientSecret: 'secret',
+        grantType: 'password',
+        username: 'jane',
+        password: 'pw',
+      }),
+    });
+
+    const result = await apiHelper.get('/whoami');
+
+    expect(result.data.authorization).toBe('Bearer password-token-1');
+  });
+
+  test('should refresh tokens that are about to expire', async ({ request }) => {
+    expiresIn = 1;
+    const apiHelper = new ApiHelper(request, server.url, {
+      auth: new OAuth2Provider({
+        tokenUrl: `${server.url}/oauth/token`,
+        clientId: 'suite',
+        clientSecret: 'secret',
+        grantType: 'client_credentials',
+        refreshSkewMs: 5000,
+      }),
+    });
+
+    await apiHelper.get('/whoami');
+    const result = await apiHelper.get('/whoami');
+
+    expect(result.data.authorization).toBe('Bearer client_credentials-token-2');
+    expect(tokenRequests()).toBe(2);
+  });
+
+  test('should refresh the token once after a 401', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, server.url, {
+      auth: new OAuth2Provider({
+        tokenUrl: `${server.url}/oauth/token`,
+        clientId: 'suite',
+        clientSecret: 'secret',
+        grantType: 'client_credentials',
+      }),
+    });
+
+    await apiHelper.get('/whoami');
+    validTokens.clear(); // revoke server-side
+    const result = await apiHelper.get('/whoami');
+
+    expect(result.status).toBe(200);
+    expect(result.data.authorization).toBe('Bearer client_credentials-token-2');
+  });
+
+  test('should skip authentication per request', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, server.url, { auth: new BearerTokenProvider('static') });
+
+    const result = await apiHelper.get('/whoami', { auth: false });
+
+    expect(result.data.authorization).toBe('');
+  });
+
+  test('should surface token endpoint failures', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, server.url, {
+      auth: new OAuth2Provider({
+        tokenUrl: `${server.url}/oauth/token`,
+        clientId: 'suite',
+        clientSecret: 'wrong',
+        grantType: 'client_credentials',
+      }),
+    });
+
+    await expect(apiHelper.get('/whoami')).rejects.toThrow(/OAuth2 token request .* failed with status 401/);
+  });
+});
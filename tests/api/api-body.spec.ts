@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import { test, expect } from '../../fixtures/test-fixtures';
+import { ApiHelper } from '../../helpers/api.helper';
+import { RequestBody } from '../../helpers/api.body';
+import { Cassette } from '../../helpers/api.cassette';
+import { StubServer } from '../../helpers/stub-server.helper';
+
+test.describe('API Request and Response Bodies', () => {
+  const server = new StubServer();
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff]);
+  let apiHelper: ApiHelper;
+
+  test.beforeAll(async () => {
+    server
+      .on('*', '/echo', ({ headers, body, bodyBuffer }) => ({
+        body: { contentType: headers['content-type'], body, bytes: [...bodyBuffer] },
+      }))
+      .on('GET', '/image', () => ({ headers: { 'Content-Type': 'image/png' }, body: png }))
+      .on('GET', '/events', () => ({
+        headers: { 'Content-Type': 'application/x-ndjson' },
+        body: '{"id":1,"type":"created"}\n{"id":2,"type":"updated"}\n',
+      }))
+      .on('GET', '/feed.xml', () => ({
+        headers: { 'Content-Type': 'application/rss+xml; charset=utf-8' },
+        body: '<?xml version="1.0"?><rss version="2.0"><item id="1"><title>First</title></item><item id="2"><title>Second</title></item></rss>',
+      }))
+      .on('GET', '/plain', () => ({ headers: { 'Content-Type': 'text/plain' }, body: 'hello' }));
+    await server.start();
+  });
+
+  test.beforeEach(({ request }) => {
+    apiHelper = new ApiHelper(request, server.url, { retry: { maxAttempts: 1 } });
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  test('should keep sending plain objects as JSON', async () => {
+    const result = await apiHelper.post('/echo', { title: 'json' });
+
+    expect(result.data.contentType).toBe('application/json');
+    expect(JSON.parse(result.data.body)).toEqual({ title: 'json' });
+  });
+
+  test('should upload multipart bodies with files from disk and buffers', async () => {
+    const csv = test.info().outputPath('posts.csv');
+    fs.writeFileSync(csv, 'id,title\n1,Upload\n');
+
+    const result = await apiHelper.post('/echo', RequestBody.multipart({
+      description: 'attachments',
+      report: RequestBody.file(csv),
+      logo: RequestBody.buffer('logo.png', png),
+    }));
+
+    expect(result.data.contentType).toMatch(/^multipart\/form-data; boundary=/);
+    expect(result.data.body).toContain('name="description"\r\n\r\nattachments');
+    expect(result.data.body).toContain('name="report"; filename="posts.csv"\r\ncontent-type: text/csv\r\n\r\nid,title\n1,Upload');
+    expect(result.data.body).toContain('name="logo"; filename="logo.png"\r\ncontent-type: image/png');
+  });
+
+  test('should send form-urlencoded bodies', async () => {
+    const result = await apiHelper.put('/echo', RequestBody.form({ user: 'ana maria', remember: true, age: 30 }));
+
+    expect(result.data.contentType).toBe('application/x-www-form-urlencoded');
+    expect(result.data.body).toBe('user=ana+maria&remember=true&age=30');
+  });
+
+  test('should send raw text and binary bodies with their content type', async () => {
+    const text = await apiHelper.post('/echo', RequestBody.text('<note>hi</note>', 'application/xml'));
+    const binary = await apiHelper.patch('/echo', RequestBody.binary(png));
+    const overridden = await apiHelper.post('/echo', RequestBody.binary(png, 'image/png'), { headers: { 'Content-Type': 'application/custom' } });
+
+    expect(text.data).toMatchObject({ contentType: 'application/xml', body: '<note>hi</note>' });
+    expect(binary.data.contentType).toBe('application/octet-stream');
+    expect(binary.data.bytes).toEqual([...png]);
+    expect(overridden.data.contentType).toBe('application/custom');
+  });
+
+  test('should upload binary bodies and file parts from streams', async () => {
+    const csv = test.info().outputPath('stream.csv');
+    fs.writeFileSync(csv, 'id,title\n2,Streamed\n');
+
+    const binary = await apiHelper.post('/echo', await RequestBody.binaryStream(Readable.from([png.subarray(0, 4), png.subarray(4)]), 'image/png'));
+    const multipart = await apiHelper.post('/echo', RequestBody.multipart({
+      report: await RequestBody.fileStream(fs.createReadStream(csv)),
+      logo: await RequestBody.fileStream(Readable.from([png]), 'logo.png'),
+    }));
+
+    expect(binary.data).toMatchObject({ contentType: 'image/png', bytes: [...png] });
+    expect(multipart.data.body).toContain('name="report"; filename="stream.csv"\r\ncontent-type: text/csv\r\n\r\nid,title\n2,Streamed');
+    expect(multipart.data.body).toContain('name="logo"; filename="logo.png"\r\ncontent-type: image/png');
+    await expect(RequestBody.fileStream(Readable.from([png]))).rejects.toThrow('A file part read from a stream needs a name');
+  });
+
+  test('should return binary responses as a Buffer', async () => {
+    const result = await apiHelper.get('/image');
+
+    expect(Buffer.isBuffer(result.data)).toBe(true);
+    expect(result.data.equals(png)).toBe(true);
+  });
+
+  test('should parse NDJSON, XML and text responses', async () => {
+    expect((await apiHelper.get('/events')).data).toEqual([{ id: 1, type: 'created' }, { id: 2, type: 'updated' }]);
+    expect((await apiHelper.get('/feed.xml')).data).toEqual({
+      rss: { '@version': '2.0', item: [{ '@id': '1', title: 'First' }, { '@id': '2', title: 'Second' }] },
+    });
+    expect((await apiHelper.get('/plain')).data).toBe('hello');
+  });
+
+  test('should record and replay binary exchanges through cassettes', async ({ request }) => {
+    const file = test.info().outputPath('binary.json');
+    const recorder = new Cassette(file, { mode: 'record' });
+    const upload = RequestBody.multipart({ logo: RequestBody.buffer('logo.png', png) });
+    await new ApiHelper(request, server.url, { cassette: recorder }).get('/image');
+    await new ApiHelper(request, server.url, { cassette: recorder }).post('/echo', upload);
+    recorder.save();
+
+    const saved = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    expect(saved.interactions[1].request.body).toEqual({
+      multipart: { logo: { name: 'logo.png', mimeType: 'image/png', size: png.length, sha256: expect.any(String) } },
+    });
+
+    const replay = new ApiHelper(request, server.url, { cassette: new Cassette(file, { mode: 'replay' }) });
+    expect((await replay.get('/image')).data.equals(png)).toBe(true);
+    expect((await replay.post('/echo', upload)).status).toBe(200);
+  });
+});
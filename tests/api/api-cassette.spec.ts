@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TestInfo } from '@playwright/test';
+import { test, expect } from '../../fixtures/test-fixtures';
+import { ApiHelper } from '../../helpers/api.helper';
+import { ApiKeyProvider, BearerTokenProvider } from '../../helpers/api.auth';
+import { Cassette, CassetteOptions } from '../../helpers/api.cassette';
+import { StubServer } from '../../helpers/stub-server.helper';
+
+test.describe('API Record and Replay', () => {
+  const server = new StubServer();
+  let counter = 0;
+
+  test.beforeAll(async () => {
+    server
+      .on('GET', '/posts/:id', ({ params }) => ({ headers: { 'Set-Cookie': 'session=abc' }, body: { id: Number(params.id), hit: ++counter } }))
+      .on('POST', '/login', ({ body }) => ({ body: { ...JSON.parse(body), token: 'live-token', hit: ++counter } }));
+    await server.start();
+  });
+
+  test.beforeEach(() => {
+    server.reset();
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  const helperFor = (request: any, cassette: Cassette) =>
+    new ApiHelper(request, server.url, { retry: { maxAttempts: 1 }, cassette });
+
+  const cassetteFile = (name: string) => test.info().outputPath(`${name}.json`);
+
+  test('should record every exchange with sensitive data redacted', async ({ request }) => {
+    const options: CassetteOptions = { mode: 'record', redactFields: ['password', 'token'] };
+    const cassette = new Cassette(cassetteFile('record'), options);
+    const apiHelper = helperFor(request, cassette).setAuth(new BearerTokenProvider('secret-token'));
+
+    await apiHelper.get('/posts/1');
+    await apiHelper.post('/login', { user: 'ana', password: 'hunter2' });
+    cassette.save();
+
+    const saved = JSON.parse(fs.readFileSync(cassette.file, 'utf-8'));
+    expect(saved.interactions).toHaveLength(2);
+    expect(saved.interactions[0].request.headers.Authorization).toBe('[REDACTED]');
+    expect(saved.interactions[0].response.headers['set-cookie']).toBe('[REDACTED]');
+    expect(saved.interactions[1].request.body).toEqual({ user: 'ana', password: '[REDACTED]' });
+    expect(saved.interactions[1].response.body).toMatchObject({ token: '[REDACTED]' });
+    expect(JSON.stringify(saved)).not.toContain('hunter2');
+  });
+
+  test('should replay recorded responses without touching the network', async ({ request }) => {
+    const file = cassetteFile('replay');
+    const recorder = new Cassette(file, { mode: 'record' });
+    const recorded = await helperFor(request, recorder).get('/posts/7', { params: { b: '2', a: '1' } });
+    recorder.save();
+    server.reset();
+
+    const replayHelper = helperFor(request, new Cassette(file, { mode: 'replay' }));
+    const replayed = await replayHelper.get('/posts/7', { params: { a: '1', b: '2' } });
+
+    expect(server.requests).toHaveLength(0);
+    expect(replayed.status).toBe(200);
+    expect(replayed.data).toEqual(recorded.data);
+    await expect(replayHelper.get('/posts/8')).rejects.toThrow(/No recorded interaction for GET .*\/posts\/8 in cassette/);
+    expect(server.requests).toHaveLength(0);
+  });
+
+  test('should match bodies regardless of key order and redacted values', async ({ request }) => {
+    const file = cassetteFile('bodies');
+    const options: CassetteOptions = { mode: 'record', redactFields: ['password'] };
+    const recorder = new Cassette(file, options);
+    await helperFor(request, recorder).post('/login', { user: 'ana', password: 'hunter2' });
+    recorder.save();
+
+    const replayHelper = helperFor(request, new Cassette(file, { ...options, mode: 'replay' }));
+
+    expect((await replayHelper.post('/login', { password: 'other', user: 'ana' })).data.user).toBe('ana');
+    await expect(replayHelper.post('/login', { user: 'bob', password: 'hunter2' })).rejects.toThrow(/No recorded interaction/);
+  });
+
+  test('should replay identical requests in recording order', async ({ request }) => {
+    const file = cassetteFile('order');
+    const recorder = new Cassette(file, { mode: 'record' });
+    const recordHelper = helperFor(request, recorder);
+    const first = await recordHelper.get('/posts/1');
+    const second = await recordHelper.get('/posts/1');
+    recorder.save();
+
+    const replayHelper = helperFor(request, new Cassette(file, { mode: 'replay' }));
+
+    expect((await replayHelper.get('/posts/1')).data.hit).toBe(first.data.hit);
+    expect((await replayHelper.get('/posts/1')).data.hit).toBe(second.data.hit);
+    expect((await replayHelper.get('/posts/1')).data.hit).toBe(second.data.hit);
+  });
+
+  test('should record only missing interactions in new episodes mode', async ({ request }) => {
+    const file = cassetteFile('episodes');
+    const recorder = new Cassette(file, { mode: 'record' });
+    await helperFor(request, recorder).get('/posts/1');
+    recorder.save();
+    server.reset();
+
+    const episodes = new Cassette(file, { mode: 'new_episodes' });
+    const apiHelper = helperFor(request, episodes);
+    await apiHelper.get('/posts/1');
+    await apiHelper.get('/posts/2');
+    episodes.save();
+
+    expect(server.requests.map(r => r.path)).toEqual(['/posts/2']);
+    expect(new Cassette(file, { mode: 'replay' }).entries.map(e => new URL(e.request.url).pathname)).toEqual(['/posts/1', '/posts/2']);
+  });
+
+  test('should expose the cassette outcome to interceptors', async ({ request }) => {
+    const outcomes: unknown[] = [];
+    const cassette = new Cassette(cassetteFile('meta'), { mode: 'new_episodes' });
+    const apiHelper = helperFor(request, cassette).use({ afterResponse: (_response, req) => { outcomes.push(req.meta.cassette); } });
+
+    await apiHelper.get('/posts/3');
+    await apiHelper.get('/posts/3');
+
+    expect(outcomes).toEqual(['recorded', 'replayed']);
+  });
+
+  test('should redact query API keys and replay without them', async ({ request }) => {
+    const file = cassetteFile('query-key');
+    const auth = new ApiKeyProvider({ key: 'k-123', name: 'api_key', in: 'query' });
+    const recorder = new Cassette(file, { mode: 'record', redactQuery: ['session'] });
+    const live = await helperFor(request, recorder).setAuth(auth).get('/posts/4', { params: { session: 's-1', view: 'full' } });
+    recorder.save();
+
+    const saved = fs.readFileSync(file, 'utf-8');
+    expect(saved).not.toContain('k-123');
+    expect(saved).not.toContain('s-1');
+    expect(JSON.parse(saved).interactions[0].request.url).toBe(`${server.url}/posts/4?session=%5BREDACTED%5D&view=full&api_key=%5BREDACTED%5D`);
+
+    const replayed = await helperFor(request, new Cassette(file, { mode: 'replay', redactQuery: ['session'] }))
+      .setAuth(auth)
+      .get('/posts/4', { params: { session: 's-2', view: 'full' } });
+    expect(replayed.data).toEqual(live.data);
+  });
+
+  test('should not write a cassette for a test without API calls', async () => {
+    const cassette = new Cassette(cassetteFile('empty'), { mode: 'record' });
+
+    cassette.save();
+
+    expect(fs.existsSync(cassette.file)).toBe(false);
+  });
+
+  test('should key cassettes by project, spec file and test title', async () => {
+    const dir = test.info().outputPath('cassettes');
+    const cassette = Cassette.forTest(test.info(), { mode: 'record', dir });
+
+    expect(cassette.title).toBe('API Record and Replay > should key cassettes by project, spec file and test title');
+    expect(path.relative(dir, cassette.file)).toBe(
+      path.join(test.info().project.name, 'api', 'api-cassette.spec', 'api-record-and-replay-should-key-cassettes-by-project-spec-file-and-test-title.json')
+    );
+
+    const info = test.info();
+    const unnamed = { project: { name: '', testDir: info.project.testDir }, file: info.file, titlePath: info.titlePath } as unknown as TestInfo;
+    expect(path.relative(dir, Cassette.forTest(unnamed, { mode: 'record', dir }).file).split(path.sep)[0]).toBe('default');
+  });
+});
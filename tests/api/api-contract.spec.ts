@@ -0,0 +1,90 @@
+import * as path from 'path';
+import { test, expect } from '../../fixtures/test-fixtures';
+import { ApiHelper } from '../../helpers/api.helper';
+import { OpenApiContract } from '../../helpers/api.contract';
+import { StubServer } from '../../helpers/stub-server.helper';
+
+test.describe('OpenAPI Contract Mode', () => {
+  const contract = OpenApiContract.load(path.join(__dirname, '../../contracts/jsonplaceholder.openapi.yaml'));
+  const server = new StubServer();
+  const post = { id: 1, userId: 1, title: 'Contract', body: 'Checked' };
+  let apiHelper: ApiHelper;
+
+  test.beforeAll(async () => {
+    server
+      .on('GET', '/posts', () => ({ body: [post] }))
+      .on('GET', '/posts/:id', ({ params }) => {
+        if (params.id === '2') return { body: { ...post, id: 2, title: 42 } };
+        if (params.id === '3') return { status: 500, body: { error: 'boom' } };
+        return params.id === '1' ? { body: post } : { status: 404, body: {} };
+      })
+      .on('POST', '/posts', ({ body }) => ({ status: 201, body: { ...JSON.parse(body), id: 101 } }))
+      .on('GET', '/albums', () => ({ body: [] }));
+    await server.start();
+  });
+
+  test.beforeEach(({ request }) => {
+    apiHelper = new ApiHelper(request, server.url, { retry: { maxAttempts: 1 }, interceptors: [contract.interceptor()] });
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  test('should accept exchanges that match the contract', async () => {
+    expect((await apiHelper.get('/posts/1')).status).toBe(200);
+    expect((await apiHelper.get('/posts/9999')).status).toBe(404);
+    expect((await apiHelper.get('/posts', { params: { _limit: '5' } })).status).toBe(200);
+    expect((await apiHelper.post('/posts', { title: 'New', body: 'Post', userId: 1 })).status).toBe(201);
+  });
+
+  test('should reject operations missing from the contract', async () => {
+    await expect(apiHelper.get('/albums')).rejects.toThrow(/GET \/albums is not declared in the contract/);
+  });
+
+  test('should reject response bodies that do not match the declared schema', async () => {
+    await expect(apiHelper.get('/posts/2')).rejects.toThrow(/\[response\.body\] \/title must be string/);
+  });
+
+  test('should reject undeclared response statuses', async () => {
+    await expect(apiHelper.get('/posts/3')).rejects.toThrow(/status 500 is not declared \(declared: 200, 404\)/);
+  });
+
+  test('should report every request violation at once', async () => {
+    const error = await apiHelper
+      .post('/posts', { title: '', userId: 'one' })
+      .catch((e: Error) => e);
+
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain('POST /posts -> 201 violates the API contract');
+    expect((error as Error).message).toContain('[request.body] /title must NOT have fewer than 1 characters');
+    expect((error as Error).message).toContain('[request.body] /body must have required property');
+    expect((error as Error).message).toContain('[request.body] /userId must be integer');
+  });
+
+  test('should validate query and path parameters', () => {
+    const check = contract.check(
+      { method: 'GET', endpoint: '/posts/abc', url: `${server.url}/posts/abc?_limit=0`, headers: {}, timeout: 0, meta: {} },
+      { response: null, status: 404, data: {} }
+    );
+
+    expect(check.operation).toBe('GET /posts/{id}');
+    expect(check.violations.map(v => `${v.location} ${v.pointer}`)).toEqual(['request.path /id']);
+
+    const listCheck = contract.check(
+      { method: 'GET', endpoint: '/posts', url: `${server.url}/posts?_limit=0&userId=me`, headers: {}, timeout: 0, meta: {} },
+      { response: null, status: 200, data: [] }
+    );
+
+    expect(listCheck.violations.map(v => `${v.location} ${v.pointer}`)).toEqual(['request.query /_limit', 'request.query /userId']);
+  });
+
+  test('should only check the response in response mode', async () => {
+    const result = await apiHelper.post('/posts', { title: '', body: 'x', userId: 1 }, { meta: { contract: 'response' } })
+      .catch((e: Error) => e);
+
+    // The echoed body still violates the Post schema, so the response check fails on its own
+    expect((result as Error).message).toContain('[response.body] /title');
+    expect((result as Error).message).not.toContain('[request.body]');
+  });
+});
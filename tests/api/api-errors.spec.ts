@@ -0,0 +1,102 @@
+import { test, expect } from '../../fixtures/test-fixtures';
+import { ApiHelper } from '../../helpers/api.helper';
+import { ApiError, ApiHttpError, ApiNetworkError, ApiParseError, ApiTimeoutError } from '../../helpers/api.errors';
+import { BearerTokenProvider } from '../../helpers/api.auth';
+import { StubServer } from '../../helpers/stub-server.helper';
+
+/**
+ * Capture the error a pending request rejects with
+ */
+async function failureOf(pending: Promise<unknown>): Promise<unknown> {
+  return pending.then(() => { throw new Error('Expected the request to fail'); }, error => error);
+}
+
+test.describe('API Errors', () => {
+  const server = new StubServer();
+
+  test.beforeAll(async () => {
+    server
+      .on('GET', '/slow', () => ({ delayMs: 1000, body: {} }))
+      .on('GET', '/missing', () => ({ status: 404, headers: { 'X-Request-Id': 'req-42' }, body: { error: 'Post not found' } }))
+      .on('GET', '/ok', () => ({ body: { ok: true } }))
+      .on('GET', '/broken-json', () => ({ headers: { 'Content-Type': 'application/json' }, body: '{"id": 1,' }))
+      .on('GET', '/broken-xml', () => ({ headers: { 'Content-Type': 'application/xml' }, body: '<post><id>1</post>' }))
+      .on('GET', '/empty', () => ({ status: 204, headers: { 'Content-Type': 'application/json' }, body: '' }));
+    await server.start();
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  test('should raise ApiTimeoutError with the request and every attempt', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, server.url, {
+      timeout: 100,
+      retry: { maxAttempts: 2, baseDelayMs: 1, retryOnErrors: [/Timeout \d+ms exceeded/] },
+    })
+      .setAuth(new BearerTokenProvider('t0ken'));
+
+    const error = await failureOf(apiHelper.get('/slow'));
+
+    expect(error).toBeInstanceOf(ApiTimeoutError);
+    expect(error).toBeInstanceOf(ApiError);
+    const timeout = error as ApiTimeoutError;
+    expect(timeout.name).toBe('ApiTimeoutError');
+    expect(timeout.timeoutMs).toBe(100);
+    expect(timeout.request).toMatchObject({ method: 'GET', url: `${server.url}/slow`, headers: { Authorization: 'Bearer t0ken' } });
+    expect(timeout.attempts).toHaveLength(2);
+    expect(String(timeout.cause)).toMatch(/Timeout 100ms exceeded/);
+  });
+
+  test('should raise ApiNetworkError with the system error code', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, 'http://127.0.0.1:1', { retry: { maxAttempts: 1 } });
+
+    const error = await failureOf(apiHelper.post('/posts', { title: 'offline' }));
+
+    expect(error).toBeInstanceOf(ApiNetworkError);
+    const network = error as ApiNetworkError;
+    expect(network.message).toContain('POST request to http://127.0.0.1:1/posts failed after 1 attempt(s)');
+    expect(network.code).toBe('ECONNREFUSED');
+    expect(network.request.data).toEqual({ title: 'offline' });
+  });
+
+  test('should return non-2xx responses unless throwOnHttpError is enabled', async ({ request }) => {
+    const lenient = new ApiHelper(request, server.url);
+    expect((await lenient.get('/missing')).status).toBe(404);
+
+    const strict = new ApiHelper(request, server.url, { throwOnHttpError: true });
+    const error = await failureOf(strict.get('/missing'));
+
+    expect(error).toBeInstanceOf(ApiHttpError);
+    const http = error as ApiHttpError;
+    expect(http.message).toBe(`GET ${server.url}/missing responded with status 404: {"error":"Post not found"}`);
+    expect(http.status).toBe(404);
+    expect(http.body).toEqual({ error: 'Post not found' });
+    expect(http.headers['x-request-id']).toBe('req-42');
+    expect(http.attempts).toHaveLength(1);
+    expect((await strict.get('/ok')).data).toEqual({ ok: true });
+  });
+
+  test('should let a request override the helper throwOnHttpError default', async ({ request }) => {
+    const strict = new ApiHelper(request, server.url, { throwOnHttpError: true });
+    const lenient = new ApiHelper(request, server.url);
+
+    expect((await strict.get('/missing', { throwOnHttpError: false })).status).toBe(404);
+    await expect(lenient.get('/missing', { throwOnHttpError: true })).rejects.toThrow(ApiHttpError);
+  });
+
+  test('should raise ApiParseError for malformed structured bodies', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, server.url);
+
+    const json = await failureOf(apiHelper.get('/broken-json'));
+    expect(json).toBeInstanceOf(ApiParseError);
+    expect(json).toMatchObject({ status: 200, contentType: 'application/json', body: '{"id": 1,' });
+    expect((json as ApiParseError).cause).toBeInstanceOf(SyntaxError);
+
+    const xml = await failureOf(apiHelper.get('/broken-xml'));
+    expect(xml).toBeInstanceOf(ApiParseError);
+    expect((xml as ApiParseError).message).toMatch(/returned a body that is not valid application\/xml \(status 200\)/);
+
+    expect((await apiHelper.get('/empty')).data).toBe('');
+  });
+});
@@ -0,0 +1,121 @@
+import { createHmac } from 'crypto';
+import { test, expect } from '../../fixtures/test-fixtures';
+import { createDependencyContainer } from '../../fixtures/dependency-container';
+import { ApiHelper, ApiInterceptor } from '../../helpers/api.helper';
+import {
+  correlationIdInterceptor,
+  redactingLoggerInterceptor,
+  signaturePayload,
+  signingInterceptor,
+} from '../../helpers/api.interceptors';
+import { StubServer } from '../../helpers/stub-server.helper';
+
+test.describe('ApiHelper Interceptors', () => {
+  const server = new StubServer();
+
+  test.beforeAll(async () => {
+    server.on('*', '/echo', ({ method, headers, body }) => ({
+      status: 200,
+      body: { method, headers, body: body ? JSON.parse(body) : null },
+    }));
+    await server.start();
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  test('should run beforeRequest hooks in registration order', async ({ request }) => {
+    const calls: string[] = [];
+    const apiHelper = new ApiHelper(request, server.url)
+      .use({ beforeRequest: () => { calls.push('first'); } })
+      .use({ beforeRequest: () => { calls.push('second'); } });
+
+    await apiHelper.get('/echo');
+
+    expect(calls).toEqual(['first', 'second']);
+  });
+
+  test('should add a correlation ID header', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, server.url).use(correlationIdInterceptor('X-Request-Id', () => 'abc-123'));
+
+    const result = await apiHelper.get('/echo');
+
+    expect(result.data.headers['x-request-id']).toBe('abc-123');
+  });
+
+  test('should sign the outgoing request', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, server.url).use(signingInterceptor({ secret: 's3cret' }));
+    const body = { title: 'signed' };
+
+    const result = await apiHelper.post('/echo', body);
+
+    const expected = createHmac('sha256', 's3cret')
+      .update(signaturePayload({ method: 'POST', endpoint: '/echo', url: `${server.url}/echo`, headers: {}, data: body, timeout: 0, meta: {} }))
+      .digest('hex');
+    expect(result.data.headers['x-signature']).toBe(expected);
+  });
+
+  test('should transform responses in reverse registration order', async ({ request }) => {
+    const tag = (label: string): ApiInterceptor => ({
+      afterResponse: (response) => ({ ...response, data: { ...response.data, trail: [...(response.data.trail || []), label] } }),
+    });
+    const apiHelper = new ApiHelper(request, server.url).use(tag('outer')).use(tag('inner'));
+
+    const result = await apiHelper.get('/echo');
+
+    expect(result.data.trail).toEqual(['inner', 'outer']);
+  });
+
+  test('should let onError recover from a failed request', async ({ request }) => {
+    const errors: string[] = [];
+    const apiHelper = new ApiHelper(request, 'http://127.0.0.1:1', { retry: { maxAttempts: 1 } }).use({
+      onError: (error) => {
+        errors.push(error.message);
+        return { response: null, data: { fallback: true }, status: 503 };
+      },
+    });
+
+    const result = await apiHelper.get('/unreachable');
+
+    expect(result).toMatchObject({ status: 503, data: { fallback: true } });
+    expect(errors[0]).toContain('GET request to http://127.0.0.1:1/unreachable failed');
+  });
+
+  test('should mask sensitive headers and fields when logging', async ({ request }) => {
+    const lines: string[] = [];
+    const apiHelper = new ApiHelper(request, server.url)
+      .use(redactingLoggerInterceptor({ fields: ['password'], log: line => lines.push(line) }));
+
+    await apiHelper.post('/echo', { user: 'jane', password: 'hunter2' }, { headers: { Authorization: 'Bearer t0ken' } });
+
+    // The echoed response body carries the raw Authorization header, so only the request line is checked for it
+    expect(lines.join('\n')).not.toContain('hunter2');
+    expect(lines[0]).not.toContain('t0ken');
+    expect(lines[0]).toContain('[REDACTED]');
+  });
+
+  test('should attach log lines to the report by default', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, server.url).use(redactingLoggerInterceptor());
+
+    await apiHelper.get('/echo', { headers: { Authorization: 'Bearer t0ken' } });
+
+    const logs = test.info().attachments.filter(attachment => attachment.name === 'api-log');
+    expect(logs.map(attachment => String(attachment.body).slice(0, 4))).toEqual(['--> ', '<-- ']);
+    expect(String(logs[0].body)).not.toContain('t0ken');
+  });
+
+  test('should register container interceptors on every ApiHelper', async ({ request }) => {
+    const container = createDependencyContainer({
+      baseURL: server.url,
+      apiInterceptors: [correlationIdInterceptor('X-Suite-Id', () => 'suite')],
+    });
+    container.initializeApi(request);
+
+    const cached = await container.apiHelper.get('/echo');
+    const fresh = await container.createApiHelper().get('/echo');
+
+    expect(cached.data.headers['x-suite-id']).toBe('suite');
+    expect(fresh.data.headers['x-suite-id']).toBe('suite');
+  });
+});
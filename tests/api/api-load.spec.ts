@@ -0,0 +1,113 @@
+import { test, expect } from '../../fixtures/test-fixtures';
+import { ApiHelper } from '../../helpers/api.helper';
+import { LoadRunner, formatLoadReport } from '../../helpers/api.load';
+import { StubServer } from '../../helpers/stub-server.helper';
+
+test.describe('API Load Runner', () => {
+  const server = new StubServer();
+  let inFlight = 0;
+  let peak = 0;
+  let runner: LoadRunner;
+
+  test.beforeAll(async () => {
+    server
+      .on('GET', '/work', async () => {
+        peak = Math.max(peak, ++inFlight);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        inFlight--;
+        return { body: { ok: true } };
+      })
+      .on('GET', '/flaky/:n', ({ params }) => ({ status: Number(params.n) % 4 === 0 ? 500 : 200, body: {} }));
+    await server.start();
+  });
+
+  test.beforeEach(({ request }) => {
+    inFlight = 0;
+    peak = 0;
+    runner = new LoadRunner(new ApiHelper(request, server.url, { retry: { maxAttempts: 1 } }));
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  test('should keep the requested number of virtual users busy', async () => {
+    const vus = new Set<number>();
+
+    const result = await runner.run(async ({ apiHelper, vu }) => {
+      vus.add(vu);
+      return apiHelper.get('/work');
+    }, { concurrency: 4, iterations: 20 });
+
+    expect(result).toMatchObject({ iterations: 20, errors: 0, errorRate: 0, statuses: { 200: 20 }, violations: [] });
+    expect(peak).toBe(4);
+    expect([...vus].sort()).toEqual([0, 1, 2, 3]);
+    expect(result.latency.min).toBeGreaterThanOrEqual(19);
+    expect(result.histogram.reduce((sum, bucket) => sum + bucket.count, 0)).toBe(20);
+    expect(result.throughput).toBeGreaterThan(0);
+  });
+
+  test('should start iterations at a fixed rate for a duration', async () => {
+    const result = await runner.run(({ apiHelper }) => apiHelper.get('/work'), { rps: 40, durationMs: 500 });
+
+    expect(result.iterations).toBeGreaterThanOrEqual(15);
+    expect(result.iterations).toBeLessThanOrEqual(21);
+    expect(result.durationMs).toBeGreaterThanOrEqual(500);
+    expect(peak).toBeLessThan(5);
+  });
+
+  test('should count failed statuses and thrown errors against the thresholds', async () => {
+    const result = await runner.run(async ({ apiHelper, iteration }) => {
+      if (iteration === 9) throw new Error('scenario broke');
+      return apiHelper.get(`/flaky/${iteration}`);
+    }, { name: 'flaky', concurrency: 2, iterations: 12, thresholds: { maxErrorRate: 0.1, minThroughput: 1_000_000 } });
+
+    expect(result.errors).toBe(4);
+    expect(result.errorRate).toBeCloseTo(1 / 3);
+    expect(result.failures).toEqual({ 'HTTP 500': 3, 'scenario broke': 1 });
+    expect(result.statuses).toEqual({ 200: 8, 500: 3 });
+    expect(result.violations).toEqual([
+      'error rate 33.3% exceeds 10.0%',
+      expect.stringMatching(/^throughput [\d.]+\/s is below 1000000\/s$/),
+    ]);
+    expect(() => runner.assertThresholds()).toThrow(/flaky: error rate 33\.3% exceeds 10\.0%/);
+  });
+
+  test('should leave runs with failOnThresholds: false out of the threshold assertion', async () => {
+    const result = await runner.run(async () => undefined, { name: 'exploratory', iterations: 1, thresholds: { minThroughput: Infinity }, failOnThresholds: false });
+
+    expect(result.violations).toHaveLength(1);
+    expect(() => runner.assertThresholds()).not.toThrow();
+    expect(() => runner.assertThresholds(result)).toThrow(/exploratory: throughput/);
+  });
+
+  test('should fail the test from the loadRunner fixture when a run breaches its thresholds', async ({ loadRunner }) => {
+    test.fail();
+    await loadRunner.run(async () => undefined, { name: 'breach', iterations: 1, thresholds: { minThroughput: Infinity } });
+  });
+
+  test('should summarise runs too long to spread into Math.min', async () => {
+    const result = await runner.run(async () => undefined, { iterations: 200_000 });
+
+    expect(result.iterations).toBe(200_000);
+    expect(result.latency.min).toBeLessThanOrEqual(result.latency.max);
+  });
+
+  test('should require a stop condition', async () => {
+    await expect(runner.run(async () => undefined, { concurrency: 2 }))
+      .rejects.toThrow('A load run needs iterations and/or durationMs to know when to stop');
+  });
+
+  test('should report percentiles and a latency histogram', async () => {
+    const result = await runner.run(({ apiHelper }) => apiHelper.get('/work'), { name: 'histogram', iterations: 5 });
+    const report = formatLoadReport(result);
+
+    expect(report).toMatch(/^histogram: 5 iterations in \d+ms \([\d.]+\/s\), 0 errors \(0\.0%\)/);
+    expect(report).toMatch(/latency ms: min \d+ \| mean \d+ \| p50 \d+ \| p90 \d+ \| p95 \d+ \| p99 \d+ \| max \d+/);
+    expect(report).toContain('  > 5000ms      0');
+
+    await runner.attach(test.info());
+    const attachment = test.info().attachments.find(({ name }) => name === 'load-report.txt');
+    expect(attachment?.body?.toString()).toBe(report);
+  });
+});
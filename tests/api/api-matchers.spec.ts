@@ -0,0 +1,91 @@
+import { test, expect } from '../../fixtures/test-fixtures';
+import { ApiHelper } from '../../helpers/api.helper';
+import { StubServer } from '../../helpers/stub-server.helper';
+
+test.describe('API Response Matchers', () => {
+  const server = new StubServer();
+  const post = { id: 1, userId: 1, title: 'Matchers', body: 'Readable failures' };
+  let apiHelper: ApiHelper;
+
+  test.beforeAll(async () => {
+    server
+      .on('GET', '/posts/1', () => ({ headers: { 'X-Request-Id': 'req-42' }, body: post }))
+      .on('GET', '/posts/2', () => ({ body: { ...post, id: 2, title: 7, body: 'x'.repeat(800) } }))
+      .on('GET', '/slow', () => ({ delayMs: 150, body: post }))
+      .on('GET', '/text', () => ({ headers: { 'Content-Type': 'text/plain' }, body: 'plain' }))
+      .on('POST', '/posts', () => ({ status: 422, body: { error: 'title is required' } }));
+    await server.start();
+  });
+
+  test.beforeEach(({ request }) => {
+    apiHelper = new ApiHelper(request, server.url, { retry: { maxAttempts: 1 } });
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  const plain = (error: Error) => error.message.replace(/\u001b\[[0-9;]*m/g, '');
+  const failureOf = (fn: () => void): string => {
+    try {
+      fn();
+    } catch (error) {
+      return plain(error as Error);
+    }
+    throw new Error('Expected the matcher to fail');
+  };
+
+  test('should pass for matching responses', async () => {
+    const result = await apiHelper.get('/posts/1');
+
+    expect(result).toHaveStatus(200);
+    expect(result).toHaveStatus([200, 304]);
+    expect(result).toBeSuccessful();
+    expect(result).toHaveContentType('application/json');
+    expect(result).toHaveHeader('x-request-id');
+    expect(result).toHaveHeader('X-Request-Id', /^req-\d+$/);
+    expect(result).toMatchSchema('post');
+    expect(result).toBeValidPost();
+    expect<unknown>(result.data).toBeValidPost();
+    expect(result).toRespondWithin(5000);
+    expect(result).not.toBeValidUser();
+  });
+
+  test('should print the request, response and body on status mismatch', async () => {
+    const result = await apiHelper.post('/posts', { body: 'no title' });
+    const message = failureOf(() => expect(result).toHaveStatus(201));
+
+    expect(message).toContain('Expected status: 201');
+    expect(message).toContain('Received status: 422');
+    expect(message).toContain(`Request:  POST ${server.url}/posts`);
+    expect(message).toContain('Payload:  {"body":"no title"}');
+    expect(message).toContain('Response: 422 application/json');
+    expect(message).toContain('Body:     {"error":"title is required"}');
+  });
+
+  test('should list schema violations and truncate long bodies', async () => {
+    const result = await apiHelper.get('/posts/2');
+    const message = failureOf(() => expect(result).toBeValidPost());
+
+    expect(message).toContain('Post should match schema:\n  /title must be string');
+    expect(message).toMatch(/Body: {5}\{.{490,}… \(\d+ chars\)/);
+  });
+
+  test('should report header, content type and timing mismatches', async () => {
+    const text = await apiHelper.get('/text');
+    const slow = await apiHelper.get('/slow');
+
+    expect(failureOf(() => expect(text).toHaveContentType('application/json'))).toContain('Received content type: "text/plain"');
+    expect(failureOf(() => expect(text).toHaveHeader('X-Request-Id'))).toContain('Received header X-Request-Id: missing');
+    expect(failureOf(() => expect(slow).toRespondWithin(50))).toMatch(/Expected duration: at most 50ms\nReceived duration: \d+ms/);
+    expect(failureOf(() => expect(slow).not.toBeSuccessful())).toContain('Expected status: not 2xx');
+  });
+
+  test('should keep verifyStatus failures descriptive', async () => {
+    const result = await apiHelper.get('/missing');
+    const message = await apiHelper.verifyStatus(result, 200).then(() => '', plain);
+
+    expect(message).toContain('Received status: 404');
+    expect(message).toContain(`Request:  GET ${server.url}/missing`);
+  });
+});
@@ -0,0 +1,101 @@
+import { test, expect } from '../../fixtures/test-fixtures';
+import { ApiHelper } from '../../helpers/api.helper';
+import { ApiValidators, Post } from '../../helpers/api.validators';
+import { PageResult, parseLinkHeader } from '../../helpers/api.pagination';
+import { StubServer } from '../../helpers/stub-server.helper';
+import { createJsonPlaceholderServer } from '../../mocks/jsonplaceholder.server';
+
+test.describe('API Pagination', () => {
+  const jsonPlaceholder = createJsonPlaceholderServer();
+  const server = new StubServer();
+  const items = Array.from({ length: 7 }, (_, i) => ({ id: i + 1 }));
+  let apiHelper: ApiHelper;
+  let stubHelper: ApiHelper;
+
+  test.beforeAll(async () => {
+    server
+      .on('GET', '/feed', ({ query }) => {
+        const start = Number(query.get('cursor') || 0);
+        const end = start + Number(query.get('_limit') || 3);
+        return { body: { data: items.slice(start, end), meta: { next: end < items.length ? String(end) : null } } };
+      })
+      .on('GET', '/endless', ({ query }) => ({ body: { data: [{ id: 1 }], nextCursor: String(Number(query.get('cursor') || 0) + 1) } }))
+      .on('GET', '/stuck', () => ({ body: { data: [{ id: 1 }], nextCursor: 'same' } }))
+      .on('GET', '/broken', ({ query }) => (query.get('_page') === '2' ? { status: 500, body: {} } : { body: [{ id: 1 }] }));
+    await Promise.all([jsonPlaceholder.start(), server.start()]);
+  });
+
+  test.beforeEach(({ request }) => {
+    apiHelper = new ApiHelper(request, jsonPlaceholder.url);
+    stubHelper = new ApiHelper(request, server.url, { retry: { maxAttempts: 1 } });
+  });
+
+  test.afterAll(async () => {
+    await Promise.all([jsonPlaceholder.stop(), server.stop()]);
+  });
+
+  test('should walk _page/_limit pages until the last one', async () => {
+    const pages = await apiHelper.paginate<Post>('/posts', { type: 'offset', limit: 30 }).collectPages();
+
+    expect(pages.map(page => page.items.length)).toEqual([30, 30, 30, 10]);
+    expect(pages[0].total).toBe(100);
+    ApiValidators.validatePageContinuity(pages, { sequential: true });
+  });
+
+  test('should iterate items lazily across pages', async () => {
+    const titles: string[] = [];
+    for await (const post of apiHelper.paginate<Post>('/posts', { type: 'offset', limit: 4 }, { params: { userId: '2' } })) {
+      titles.push(post.title);
+      if (titles.length === 6) break;
+    }
+
+    expect(titles).toHaveLength(6);
+    expect(jsonPlaceholder.requests.filter(r => r.query.get('userId') === '2')).toHaveLength(2);
+  });
+
+  test('should follow RFC 5988 Link headers', async () => {
+    const comments = await apiHelper
+      .paginate('/posts/1/comments', { type: 'link' }, { params: { _page: '1', _limit: '2' } })
+      .toArray();
+
+    expect(comments.map(comment => comment.id)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test('should follow cursors found in the body', async () => {
+    const pages = await stubHelper.paginate('/feed', { type: 'cursor', limit: 3, cursorPath: 'meta.next' }).collectPages();
+
+    expect(pages.map(page => page.items.map(item => item.id))).toEqual([[1, 2, 3], [4, 5, 6], [7]]);
+    expect(pages[1].response.request?.url).toContain('cursor=3');
+  });
+
+  test('should enforce the max-page safety limit', async () => {
+    await expect(stubHelper.paginate('/endless', { type: 'cursor' }, { maxPages: 5 }).toArray())
+      .rejects.toThrow('Pagination of /endless exceeded maxPages (5)');
+
+    const stopped = await stubHelper.paginate('/endless', { type: 'cursor' }, { maxPages: 5, onMaxPages: 'stop' }).collectPages();
+    expect(stopped).toHaveLength(5);
+  });
+
+  test('should fail on cursor loops and failed pages', async () => {
+    await expect(stubHelper.paginate('/stuck', { type: 'cursor' }).toArray()).rejects.toThrow(/loops: page 2 points back/);
+    await expect(stubHelper.paginate('/broken', { type: 'offset', limit: 1 }).toArray()).rejects.toThrow('Page 2 of /broken failed with status 500');
+  });
+
+  test('should report duplicates and gaps across pages', () => {
+    const page = (number: number, ids: number[], total?: number): PageResult<{ id: number }> =>
+      ({ number, items: ids.map(id => ({ id })), response: { response: null, data: [], status: 200 }, total });
+    const pages = [page(1, [1, 2, 3], 10), page(2, [3, 4, 7]), page(3, []), page(4, [8])];
+
+    expect(() => ApiValidators.validatePageContinuity(pages, { sequential: true })).toThrow(
+      /duplicate 3 on page 2 \(first seen on page 1\)[\s\S]*page 3 is empty but later pages have items[\s\S]*collected 6 unique items but the server announced 10[\s\S]*gap: 5\.\.6 missing/
+    );
+  });
+
+  test('should parse Link headers with several relations', () => {
+    expect(parseLinkHeader('<https://api.test/a?page=2>; rel="next", <https://api.test/a?page=9>; rel="last"')).toEqual({
+      next: 'https://api.test/a?page=2',
+      last: 'https://api.test/a?page=9',
+    });
+    expect(parseLinkHeader(undefined)).toEqual({});
+  });
+});
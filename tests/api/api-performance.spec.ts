@@ -0,0 +1,106 @@
+import { test, expect } from '../../fixtures/test-fixtures';
+import { ApiHelper } from '../../helpers/api.helper';
+import { RequestBody } from '../../helpers/api.body';
+import { PerformanceBudgetRunner, percentile } from '../../helpers/api.performance';
+import { StubServer } from '../../helpers/stub-server.helper';
+
+test.describe('API Timing and Performance Budgets', () => {
+  const server = new StubServer();
+  let apiHelper: ApiHelper;
+
+  test.beforeAll(async () => {
+    server
+      .on('GET', '/fast', () => ({ body: { id: 1, title: 'fast' } }))
+      .on('GET', '/slow', () => ({ delayMs: 150, body: {} }))
+      .on('GET', '/gone', () => ({ status: 410, body: {} }))
+      .on('POST', '/echo', ({ body }) => ({ body: { received: body.length } }));
+    await server.start();
+  });
+
+  test.beforeEach(({ request }) => {
+    apiHelper = new ApiHelper(request, server.url, { retry: { maxAttempts: 1 } });
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  test('should attach timing and sizes to every live response', async () => {
+    const get = await apiHelper.get('/fast');
+    const post = await apiHelper.post('/echo', { title: 'sized' });
+    const upload = await apiHelper.post('/echo', RequestBody.text('0123456789'));
+
+    expect(get.timing).toEqual({
+      totalMs: expect.any(Number),
+      ttfbMs: expect.any(Number),
+      requestBytes: 0,
+      responseBytes: Buffer.byteLength(JSON.stringify({ id: 1, title: 'fast' })),
+    });
+    expect(get.timing!.ttfbMs).toBeLessThanOrEqual(get.timing!.totalMs);
+    expect(post.timing!.requestBytes).toBe(post.data.received);
+    expect(upload.timing!.requestBytes).toBe(10);
+    expect(get).toRespondWithin(1000);
+  });
+
+  test('should compute nearest-rank percentiles', () => {
+    const samples = [15, 20, 35, 40, 50];
+
+    expect(percentile(samples, 50)).toBe(35);
+    expect(percentile(samples, 95)).toBe(50);
+    expect(percentile([...samples].reverse(), 0)).toBe(15);
+    expect(percentile([], 95)).toBe(0);
+  });
+
+  test('should pass endpoints that stay within budget', async () => {
+    const runner = new PerformanceBudgetRunner(apiHelper, [{ endpoint: '/fast', samples: 5, p50Ms: 500, p95Ms: 1000 }]);
+
+    const [result] = await runner.measureAll();
+
+    expect(result).toMatchObject({ name: 'GET /fast', samples: 5, errors: 0, violations: [] });
+    expect(result.p50Ms).toBeLessThanOrEqual(result.p95Ms);
+    runner.assertWithinBudgets();
+  });
+
+  test('should reject budgets without samples', async () => {
+    const runner = new PerformanceBudgetRunner(apiHelper, [{ endpoint: '/fast', samples: 0, p50Ms: 500, p95Ms: 1000 }]);
+    const sent = server.requests.length;
+
+    await expect(runner.measure('/fast')).rejects.toThrow('GET /fast needs at least one sample, got 0');
+    expect(server.requests).toHaveLength(sent);
+  });
+
+  test('should fail slow or failing endpoints with a summary table', async () => {
+    const runner = new PerformanceBudgetRunner(apiHelper, [
+      { endpoint: '/slow', samples: 3, p50Ms: 50, p95Ms: 100 },
+      { endpoint: '/gone', samples: 2, p50Ms: 500, p95Ms: 500 },
+    ]);
+
+    const slow = await runner.measure('/slow');
+    const gone = await runner.measure('GET /gone');
+
+    expect(slow.violations).toEqual([
+      expect.stringMatching(/^p50 \d+ms exceeds 50ms$/),
+      expect.stringMatching(/^p95 \d+ms exceeds 100ms$/),
+    ]);
+    expect(gone.violations).toEqual(['2 of 2 samples returned a non-2xx status']);
+    expect(() => runner.assertWithinBudgets()).toThrow(/GET \/slow: p50 \d+ms exceeds 50ms/);
+    expect(runner.summaryTable().split('\n')).toEqual([
+      expect.stringContaining('| Endpoint | Samples |'),
+      expect.any(String),
+      expect.stringMatching(/^\| GET \/slow \| 3 \| \d+ \/ 50 \| \d+ \/ 100 \| .* \| OVER BUDGET \|$/),
+      expect.stringMatching(/^\| GET \/gone \| 2 \| .* \| OVER BUDGET \|$/),
+    ]);
+    await expect(runner.measure('/unknown')).rejects.toThrow('No performance budget configured for /unknown; known: GET /slow, GET /gone');
+  });
+
+  test('should attach the summary table to the report', async ({ request }) => {
+    const runner = new PerformanceBudgetRunner(new ApiHelper(request, server.url), [{ endpoint: '/fast', samples: 2, p50Ms: 500, p95Ms: 500 }]);
+    await runner.measureAll();
+
+    await runner.attach(test.info());
+
+    const attachment = test.info().attachments.find(({ name }) => name === 'performance-budgets.md');
+    expect(attachment?.contentType).toBe('text/markdown');
+    expect(attachment?.body?.toString()).toContain('| GET /fast | 2 |');
+  });
+});
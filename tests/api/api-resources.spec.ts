@@ -0,0 +1,108 @@
+import { test, expect } from '../../fixtures/test-fixtures';
+import { createDependencyContainer } from '../../fixtures/dependency-container';
+import { ApiHelper } from '../../helpers/api.helper';
+import { ApiClient, ResourceClient } from '../../helpers/api.resources';
+import { ApiValidators, Post } from '../../helpers/api.validators';
+import { StubServer } from '../../helpers/stub-server.helper';
+
+test.describe('Typed Resource Clients', () => {
+  const server = new StubServer();
+  const posts = [1, 2, 3].map(id => ({ id, userId: 1, title: `Post ${id}`, body: `Body ${id}` }));
+  const comments = [1, 2].map(id => ({ id, postId: 1, name: `Comment ${id}`, email: `c${id}@example.com`, body: 'Nice' }));
+  const user = { id: 1, name: 'Jane', email: 'jane@example.com', address: { street: 'Main', city: 'Town', zipcode: '123' } };
+  let api: ApiClient;
+
+  test.beforeAll(async () => {
+    server
+      .on('GET', '/posts', ({ query }) => {
+        const limit = Number(query.get('_limit') || posts.length);
+        const page = Number(query.get('_page') || 1);
+        return { body: posts.slice((page - 1) * limit, page * limit) };
+      })
+      .on('GET', '/posts/:id', ({ params }) => {
+        const post = posts.find(p => p.id === Number(params.id));
+        return post ? { body: post } : { status: 404, body: {} };
+      })
+      .on('GET', '/posts/:id/comments', () => ({ body: comments }))
+      .on('POST', '/posts', ({ body }) => ({ status: 201, body: { ...JSON.parse(body), id: 101 } }))
+      .on('GET', '/users/:id', () => ({ body: user }))
+      .on('GET', '/users/:id/posts', () => ({ body: posts }))
+      .on('GET', '/broken', () => ({ body: [posts[0], { ...posts[1], title: 42 }] }));
+    await server.start();
+  });
+
+  test.beforeEach(({ request }) => {
+    api = new ApiClient(new ApiHelper(request, server.url));
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  test('should get a typed post', async () => {
+    const result = await api.posts.get(1);
+
+    expect(result.status).toBe(200);
+    expect(result.data.title).toBe('Post 1');
+  });
+
+  test('should list posts with limit and page', async () => {
+    const result = await api.posts.list({ limit: 2, page: 2 });
+
+    expect(result.data.map(post => post.id)).toEqual([3]);
+    expect(server.requests.at(-1)?.query.get('_limit')).toBe('2');
+  });
+
+  test('should list nested comments and user posts', async () => {
+    const postComments = await api.posts.comments(1);
+    const userPosts = await api.users.posts(1);
+
+    expect(postComments.data.every(comment => comment.postId === 1)).toBe(true);
+    expect(userPosts.data).toHaveLength(3);
+    expect((await api.users.get(1)).data.address.city).toBe('Town');
+  });
+
+  test('should create a post', async () => {
+    const result = await api.posts.create({ title: 'New', body: 'Created', userId: 1 });
+
+    expect(result.status).toBe(201);
+    expect(result.data.id).toBe(101);
+  });
+
+  test('should not validate error responses', async () => {
+    const result = await api.posts.get(9999);
+
+    expect(result.status).toBe(404);
+  });
+
+  test('should fail validation for malformed items anywhere in a list', async ({ request }) => {
+    const broken = new ResourceClient<Post>(new ApiHelper(request, server.url), '/broken', ApiValidators.validatePostStructure);
+
+    await expect(broken.list()).rejects.toThrow(/\/title must be string/);
+    await expect(broken.list({ validate: false })).resolves.toMatchObject({ status: 200 });
+  });
+
+  test('should be provided by the dependency container', async ({ request }) => {
+    const container = createDependencyContainer({ baseURL: server.url });
+    container.initializeApi(request);
+
+    expect(container.apiClient).toBe(container.getApiDependencies().apiClient);
+    expect((await container.apiClient.posts.get(2)).data.id).toBe(2);
+  });
+
+  test('should provide REST dependencies without a GraphQL endpoint', async ({ request }) => {
+    const graphqlURL = process.env.GRAPHQL_URL;
+    delete process.env.GRAPHQL_URL;
+    try {
+      const container = createDependencyContainer({ baseURL: server.url });
+      container.initializeApi(request);
+
+      const dependencies = container.getApiDependencies();
+      expect(dependencies.apiClient).toBe(container.apiClient);
+      expect(dependencies.graphqlHelper).toBeUndefined();
+      expect(() => container.graphqlHelper).toThrow('GraphQL endpoint not configured');
+    } finally {
+      process.env.GRAPHQL_URL = graphqlURL;
+    }
+  });
+});
@@ -0,0 +1,133 @@
+import { test, expect } from '../../fixtures/test-fixtures';
+import { ApiHelper } from '../../helpers/api.helper';
+import { StubServer } from '../../helpers/stub-server.helper';
+
+test.describe('ApiHelper Retry Policy', () => {
+  const server = new StubServer();
+  const fastRetry = { maxAttempts: 3, baseDelayMs: 10, maxDelayMs: 20 };
+  let hits: Record<string, number>;
+
+  test.beforeAll(async () => {
+    server
+      .on('*', '/flaky/:failures/:status', ({ params }) => {
+        const key = `flaky-${params.failures}-${params.status}`;
+        hits[key] = (hits[key] || 0) + 1;
+        return hits[key] <= Number(params.failures)
+          ? { status: Number(params.status), body: { error: 'try again' } }
+          : { status: 200, body: { ok: true } };
+      })
+      .on('GET', '/throttled', () => {
+        hits.throttled = (hits.throttled || 0) + 1;
+        return hits.throttled === 1
+          ? { status: 429, headers: { 'Retry-After': '1' }, body: {} }
+          : { status: 200, body: { ok: true } };
+      })
+      .on('GET', '/dropped', ({ raw }) => {
+        hits.dropped = (hits.dropped || 0) + 1;
+        if (hits.dropped === 1) {
+          raw.socket.destroy();
+          return undefined;
+        }
+        return { status: 200, body: { ok: true } };
+      });
+    await server.start();
+  });
+
+  test.beforeEach(() => {
+    hits = {};
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  test('should make a single attempt unless retries are configured', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, server.url);
+
+    const result = await apiHelper.get('/flaky/1/503');
+
+    expect(result.status).toBe(503);
+    expect(result.attempts).toHaveLength(1);
+    expect(apiHelper.getRetryPolicy().retryOnErrors).not.toContainEqual(/Timeout \d+ms exceeded/);
+  });
+
+  test('should retry retryable statuses and record every attempt', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, server.url, { retry: fastRetry });
+
+    const result = await apiHelper.get('/flaky/2/503');
+
+    expect(result.status).toBe(200);
+    expect(result.attempts?.map(attempt => attempt.status)).toEqual([503, 503, 200]);
+    expect(result.attempts?.[0].delayMs).toBeLessThanOrEqual(fastRetry.baseDelayMs);
+  });
+
+  test('should return the last response when attempts are exhausted', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, server.url, { retry: { ...fastRetry, maxAttempts: 2 } });
+
+    const result = await apiHelper.get('/flaky/5/500');
+
+    expect(result.status).toBe(500);
+    expect(result.attempts).toHaveLength(2);
+  });
+
+  test('should not retry statuses outside the policy', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, server.url, { retry: fastRetry });
+
+    const result = await apiHelper.get('/flaky/1/404');
+
+    expect(result.status).toBe(404);
+    expect(result.attempts).toHaveLength(1);
+  });
+
+  test('should honour Retry-After on 429 responses', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, server.url, { retry: { ...fastRetry, maxRetryAfterMs: 50 } });
+
+    const result = await apiHelper.get('/throttled');
+
+    expect(result.status).toBe(200);
+    expect(result.attempts?.[0]).toMatchObject({ status: 429, delayMs: 50 });
+  });
+
+  test('should wait the Retry-After delay when it is below the cap', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, server.url, { retry: { ...fastRetry, maxRetryAfterMs: 5000 } });
+
+    const result = await apiHelper.get('/throttled');
+
+    expect(result.status).toBe(200);
+    expect(result.attempts?.[0]).toMatchObject({ status: 429, delayMs: 1000 });
+  });
+
+  test('should retry dropped connections', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, server.url, { retry: fastRetry });
+
+    const result = await apiHelper.get('/dropped');
+
+    expect(result.status).toBe(200);
+    expect(result.attempts?.[0].error).toBeDefined();
+    expect(result.attempts).toHaveLength(2);
+  });
+
+  test('should not retry POST unless non-idempotent retries are enabled', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, server.url, { retry: fastRetry });
+
+    const single = await apiHelper.post('/flaky/1/503', { title: 'once' });
+    expect(single.status).toBe(503);
+    expect(single.attempts).toHaveLength(1);
+
+    hits = {};
+    const retried = await apiHelper.post('/flaky/1/503', { title: 'twice' }, {
+      retry: { retryNonIdempotent: true },
+    });
+    expect(retried.status).toBe(200);
+    expect(retried.attempts).toHaveLength(2);
+  });
+
+  test('should disable retries per request', async ({ request }) => {
+    const apiHelper = new ApiHelper(request, server.url, { retry: fastRetry });
+
+    const result = await apiHelper.get('/flaky/1/503', { retry: false });
+
+    expect(result.status).toBe(503);
+    expect(result.attempts).toHaveLength(1);
+  });
+});
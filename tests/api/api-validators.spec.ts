@@ -0,0 +1,86 @@
+import { test, expect } from '../../fixtures/test-fixtures';
+import { ApiValidators } from '../../helpers/api.validators';
+import { SeededRandom } from '../../helpers/random.helper';
+
+test.describe('Array Response Validation', () => {
+  const posts = Array.from({ length: 60 }, (_, i) => ({ id: i + 1, userId: 1, title: `Post ${i + 1}`, body: 'Body' }));
+  const withBroken = (...indices: number[]) =>
+    posts.map((post, i) => (indices.includes(i) ? { ...post, title: 42 } : post));
+
+  const failureOf = (fn: () => void): string => {
+    try {
+      fn();
+    } catch (error) {
+      return (error as Error).message;
+    }
+    throw new Error('Expected validation to fail');
+  };
+
+  test('should validate every item by default and report all failing indices', () => {
+    const message = failureOf(() =>
+      ApiValidators.validateArrayResponse(withBroken(3, 49), ApiValidators.validatePostStructure)
+    );
+
+    expect(message).toContain('2 of 60 validated items failed (strategy: all)');
+    expect(message).toContain('[3] Post should match schema:');
+    expect(message).toContain('[49] Post should match schema:');
+    expect(message).toContain('/title must be string');
+  });
+
+  test('should check only the boundary items with first and last strategies', () => {
+    const data = withBroken(30);
+
+    ApiValidators.validateArrayResponse(data, ApiValidators.validatePostStructure, 1, { strategy: 'first' });
+    ApiValidators.validateArrayResponse(data, ApiValidators.validatePostStructure, 1, { strategy: 'first-last' });
+    expect(failureOf(() =>
+      ApiValidators.validateArrayResponse(withBroken(59), ApiValidators.validatePostStructure, 1, { strategy: 'last' })
+    )).toContain('[59]');
+  });
+
+  test('should draw a reproducible sample and report its seed', () => {
+    const seen: number[][] = [];
+    const collect = (run: number[]) => (item: { id: number }) => { run.push(item.id); };
+
+    for (let i = 0; i < 2; i++) {
+      const run: number[] = [];
+      ApiValidators.validateArrayResponse(posts, collect(run), 1, { strategy: 'sample', sampleSize: 5, seed: 1234 });
+      seen.push(run);
+    }
+
+    expect(seen[0]).toHaveLength(5);
+    expect(seen[1]).toEqual(seen[0]);
+    expect(test.info().annotations).toContainEqual({ type: 'array-sample-seed', description: '1234 (rerun with API_SAMPLE_SEED=1234)' });
+
+    const broken = withBroken(...new SeededRandom(99).sampleIndices(posts.length, 3));
+    expect(failureOf(() =>
+      ApiValidators.validateArrayResponse(broken, ApiValidators.validatePostStructure, 1, { strategy: 'sample', sampleSize: 3, seed: 99 })
+    )).toContain('3 of 3 validated items failed (strategy: sample, seed: 99)');
+  });
+
+  test('should stop at the time budget and report the skipped items', () => {
+    let calls = 0;
+    const slowValidator = () => {
+      calls++;
+      const until = Date.now() + 5;
+      while (Date.now() < until) { /* busy wait */ }
+    };
+
+    ApiValidators.validateArrayResponse(posts, slowValidator, 1, { timeBudgetMs: 20 });
+
+    expect(calls).toBeGreaterThan(0);
+    expect(calls).toBeLessThan(posts.length);
+    const budget = test.info().annotations.find(a => a.type === 'array-validation-budget');
+    expect(budget?.description).toMatch(new RegExp(`^Validated ${calls} of 60 items within 20ms`));
+  });
+
+  test('should cap the number of listed failures', () => {
+    const message = failureOf(() =>
+      ApiValidators.validateArrayResponse(withBroken(...posts.map((_, i) => i)), ApiValidators.validatePostStructure)
+    );
+
+    expect(message).toContain('60 of 60 validated items failed');
+    expect(message).toContain('[19] Post');
+    expect(message).not.toContain('[20] Post');
+    expect(message).toContain('... and 40 more');
+  });
+});
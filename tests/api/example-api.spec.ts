@@ -1,8 +1,12 @@
+import * as path from 'path';
 import { test, expect } from '../../fixtures/test-fixtures';
 import { ApiValidators } from '../../helpers/api.validators';
+import { OpenApiContract } from '../../helpers/api.contract';
 import { ApiTestData } from '../../data/api-test-data';
 
 test.describe('JSONPlaceholder API Tests', () => {
+  // Every request in this suite is checked against the OpenAPI contract
+  test.use({ apiContract: OpenApiContract.load(path.join(__dirname, '../../contracts/jsonplaceholder.openapi.yaml')) });
   
   test.describe('Posts API', () => {
     test.describe('GET Operations', () => {
@@ -67,7 +71,8 @@ test.describe('JSONPlaceholder API Tests', () => {
 
       test('should handle invalid post data gracefully', async ({ apiHelper }) => {
         const invalidPost = ApiTestData.posts.invalidPost;
-        const result = await apiHelper.post('/posts', invalidPost);
+        // Invalid input on purpose: skip the contract check for this exchange
+        const result = await apiHelper.post('/posts', invalidPost, { meta: { contract: 'off' } });
         
         // JSONPlaceholder accepts invalid data but we test the structure
         await apiHelper.verifyStatus(result, 201);
@@ -161,7 +166,8 @@ test.describe('JSONPlaceholder API Tests', () => {
     test.describe('Invalid Endpoints', () => {
       ApiTestData.errors.invalidEndpoints.forEach(endpoint => {
         test(`should handle invalid endpoint ${endpoint}`, async ({ apiHelper }) => {
-          const result = await apiHelper.get(endpoint);
+          // Malformed path parameters on purpose: only the response is checked against the contract
+          const result = await apiHelper.get(endpoint, { meta: { contract: 'response' } });
           
           // Should return 404 or appropriate error status
           expect([404, 400]).toContain(result.status);
@@ -171,39 +177,23 @@ test.describe('JSONPlaceholder API Tests', () => {
   });
 
   test.describe('Performance Tests', () => {
-    test('should respond within acceptable time limits', async ({ apiHelper }) => {
-      const startTime = Date.now();
+    test('should keep every endpoint within its performance budget', async ({ performanceBudgets }) => {
+      // Budgets live in data/performance-budgets.ts; the summary table is attached to the report
+      await performanceBudgets.measureAll();
       
-      const result = await apiHelper.get('/posts');
-      
-      const endTime = Date.now();
-      const responseTime = endTime - startTime;
-      
-      await apiHelper.verifyStatus(result, 200);
-      expect(responseTime).toBeLessThan(3000); // 3 seconds max
-      
-      console.log(`API response time: ${responseTime}ms`);
+      performanceBudgets.assertWithinBudgets();
     });
 
-    test('should handle concurrent requests efficiently', async ({ apiHelper }) => {
-      const concurrentRequests = ApiTestData.users.knownUserIds.map(id => 
-        apiHelper.get(`/users/${id}`)
-      );
+    test('should handle concurrent requests efficiently', async ({ loadRunner }) => {
+      const userIds = ApiTestData.users.knownUserIds;
       
-      const startTime = Date.now();
-      const results = await Promise.all(concurrentRequests);
-      const endTime = Date.now();
-      
-      // All requests should succeed
-      results.forEach(result => {
-        expect(result.status).toBe(200);
-      });
-      
-      const totalTime = endTime - startTime;
-      console.log(`${results.length} concurrent requests completed in: ${totalTime}ms`);
+      const result = await loadRunner.run(
+        ({ apiHelper, iteration }) => apiHelper.get(`/users/${userIds[iteration % userIds.length]}`),
+        { name: 'GET /users/:id', concurrency: userIds.length, iterations: userIds.length * 5, thresholds: { maxErrorRate: 0, p95Ms: 1000 } }
+      );
       
-      // Should be faster than sequential requests
-      expect(totalTime).toBeLessThan(results.length * 1000);
+      expect(result.statuses).toEqual({ 200: userIds.length * 5 });
+      loadRunner.assertThresholds(result);
     });
   });
 });
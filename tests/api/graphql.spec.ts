@@ -0,0 +1,119 @@
+import { test, expect } from '../../fixtures/test-fixtures';
+import { ApiHelper } from '../../helpers/api.helper';
+import { BearerTokenProvider } from '../../helpers/api.auth';
+import { GraphQLHelper } from '../../helpers/graphql.helper';
+import { StubServer } from '../../helpers/stub-server.helper';
+import { createGraphQLServer } from '../../mocks/graphql.server';
+
+interface PostQuery {
+  post: { id: string; title: string; user: { name: string }; comments: { id: string }[] } | null;
+}
+
+const POST_QUERY = `
+  query PostWithAuthor($id: ID!) {
+    post(id: $id) { id title user { name } comments { id } }
+  }
+`;
+
+test.describe('GraphQL Helper', () => {
+  test.describe('against the schema-driven stand-in', () => {
+    test('should run typed queries with variables', async ({ graphqlHelper }) => {
+      const result = await graphqlHelper.query<PostQuery, { id: string }>(POST_QUERY, { id: '1' });
+      const data = GraphQLHelper.assertNoErrors(result);
+
+      expect(result.status).toBe(200);
+      expect(data.post?.id).toBe('1');
+      expect(data.post?.user.name).toBe('Leanne Graham');
+      expect(data.post?.comments).toHaveLength(5);
+    });
+
+    test('should split errors from partial data on a 200 response', async ({ graphqlHelper }) => {
+      const result = await graphqlHelper.query(`{ found: post(id: 1) { id } missing: post(id: 999) { id } }`);
+
+      expect(result.status).toBe(200);
+      expect(result.data).toEqual({ found: { id: '1' }, missing: null });
+      GraphQLHelper.assertErrors(result, [{ message: 'Post 999 not found', path: ['missing'], code: 'NOT_FOUND' }]);
+      expect(() => GraphQLHelper.assertNoErrors(result)).toThrow(/Post 999 not found at missing \[NOT_FOUND\]/);
+    });
+
+    test('should select the operation by name', async ({ graphqlHelper }) => {
+      const document = `
+        query Users { users { id } }
+        query FirstUser { user(id: 1) { username } }
+      `;
+      const result = await graphqlHelper.query(document, undefined, { operationName: 'FirstUser' });
+
+      expect(GraphQLHelper.assertNoErrors(result)).toEqual({ user: { username: 'Bret' } });
+      GraphQLHelper.assertErrors(await graphqlHelper.query(document), [{ message: /operation name/ }]);
+    });
+
+    test('should run mutations', async ({ graphqlHelper }) => {
+      const result = await graphqlHelper.mutate<{ createPost: { id: string; title: string; user: { username: string } } }>(
+        `mutation Create($input: PostInput!) { createPost(input: $input) { id title user { username } } }`,
+        { input: { title: 'GraphQL', body: 'From the helper', userId: '2' } }
+      );
+
+      expect(GraphQLHelper.assertNoErrors(result).createPost).toEqual({ id: '101', title: 'GraphQL', user: { username: 'Antonette' } });
+    });
+
+    test('should report validation errors without data', async ({ graphqlHelper }) => {
+      const result = await graphqlHelper.query(`{ post(id: 1) { nope } }`);
+
+      expect(result.data).toBeNull();
+      GraphQLHelper.assertErrors(result, [{ message: 'Cannot query field "nope" on type "Post".' }]);
+    });
+  });
+
+  test.describe('persisted queries and shared transport', () => {
+    const graphqlServer = createGraphQLServer();
+    const flaky = new StubServer();
+    let failures = 0;
+
+    test.beforeAll(async () => {
+      flaky.on('POST', '/graphql', ({ headers }) => {
+        if (failures-- > 0) return { status: 503, body: {} };
+        return { body: { data: { viewer: headers.authorization || null } } };
+      });
+      await Promise.all([graphqlServer.start(), flaky.start()]);
+    });
+
+    test.beforeEach(() => {
+      graphqlServer.reset();
+      flaky.reset();
+    });
+
+    test.afterAll(async () => {
+      await Promise.all([graphqlServer.stop(), flaky.stop()]);
+    });
+
+    test('should register a persisted query once and then send only its hash', async ({ request }) => {
+      const graphql = new GraphQLHelper(new ApiHelper(request, graphqlServer.url), { persistedQueries: true });
+      const bodies = () => graphqlServer.requests.map(r => JSON.parse(r.body));
+
+      GraphQLHelper.assertNoErrors(await graphql.query(POST_QUERY, { id: '2' }));
+      GraphQLHelper.assertNoErrors(await graphql.query(POST_QUERY, { id: '3' }));
+
+      const hash = GraphQLHelper.hash(POST_QUERY);
+      expect(bodies().map(body => [body.extensions.persistedQuery.sha256Hash === hash, 'query' in body])).toEqual([
+        [true, false],
+        [true, true],
+        [true, false],
+      ]);
+    });
+
+    test('should reuse the ApiHelper auth and retry queries but not mutations', async ({ request }) => {
+      const apiHelper = new ApiHelper(request, flaky.url, { retry: { maxAttempts: 3, baseDelayMs: 1 } })
+        .setAuth(new BearerTokenProvider('gql-token'));
+      const graphql = new GraphQLHelper(apiHelper);
+
+      failures = 2;
+      const query = await graphql.query<{ viewer: string }>('{ viewer }');
+      expect(GraphQLHelper.assertNoErrors(query).viewer).toBe('Bearer gql-token');
+      expect(query.response.attempts).toHaveLength(3);
+
+      failures = 1;
+      await expect(graphql.mutate('mutation { viewer }')).rejects.toThrow(/did not return a GraphQL result \(status 503\)/);
+      expect(flaky.requests).toHaveLength(4);
+    });
+  });
+});
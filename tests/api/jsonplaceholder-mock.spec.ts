@@ -0,0 +1,55 @@
+import { test, expect } from '../../fixtures/test-fixtures';
+import { ApiHelper } from '../../helpers/api.helper';
+import { createJsonPlaceholderServer } from '../../mocks/jsonplaceholder.server';
+
+test.describe('JSONPlaceholder Stand-in Server', () => {
+  const server = createJsonPlaceholderServer();
+  let apiHelper: ApiHelper;
+
+  test.beforeAll(async () => {
+    await server.start();
+  });
+
+  test.beforeEach(({ request }) => {
+    apiHelper = new ApiHelper(request, server.url);
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  test('should serve the seeded collections', async () => {
+    expect((await apiHelper.get('/posts')).data).toHaveLength(100);
+    expect((await apiHelper.get('/users')).data).toHaveLength(10);
+    expect((await apiHelper.get('/comments')).data).toHaveLength(500);
+  });
+
+  test('should paginate with _page and _limit and expose Link headers', async () => {
+    const result = await apiHelper.get('/posts', { params: { _page: '2', _limit: '20' } });
+
+    expect(result.data.map((post: { id: number }) => post.id)).toEqual(Array.from({ length: 20 }, (_, i) => i + 21));
+    expect(result.headers?.['x-total-count']).toBe('100');
+    expect(result.headers?.['link']).toContain('_page=3&_limit=20>; rel="next"');
+    expect(result.headers?.['link']).toContain('_page=1&_limit=20>; rel="prev"');
+  });
+
+  test('should filter by query fields and nested routes', async () => {
+    const byQuery = await apiHelper.get('/comments', { params: { postId: '3' } });
+    const nested = await apiHelper.get('/posts/3/comments');
+
+    expect(nested.data).toEqual(byQuery.data);
+    expect((await apiHelper.get('/users/2/posts')).data).toHaveLength(10);
+    expect((await apiHelper.get('/posts/999/comments')).status).toBe(404);
+  });
+
+  test('should acknowledge writes without persisting them', async () => {
+    const created = await apiHelper.post('/posts', { title: 'Local', body: 'Only', userId: 1 });
+    const patched = await apiHelper.patch('/posts/1', { title: 'Patched' });
+
+    expect(created).toMatchObject({ status: 201, data: { id: 101 } });
+    expect(patched.data).toMatchObject({ id: 1, userId: 1, title: 'Patched' });
+    expect((await apiHelper.get('/posts/1')).data.title).not.toBe('Patched');
+    expect((await apiHelper.delete('/posts/1')).status).toBe(200);
+    expect((await apiHelper.put('/posts/9999', {})).status).toBe(404);
+  });
+});
@@ -0,0 +1,62 @@
+import { test, expect } from '../../fixtures/test-fixtures';
+import { ApiValidators } from '../../helpers/api.validators';
+import { SchemaValidator } from '../../helpers/schema.validator';
+
+test.describe('JSON Schema Validation', () => {
+  const validUser = {
+    id: 1,
+    name: 'Leanne Graham',
+    email: 'Sincere@april.biz',
+    address: {
+      street: 'Kulas Light',
+      city: 'Gwenborough',
+      zipcode: '92998-3874',
+      geo: { lat: '-37.3159', lng: '81.1496' },
+    },
+    company: { name: 'Romaguera-Crona', catchPhrase: 'Multi-layered client-server neural-net', bs: 'harness real-time e-markets' },
+  };
+
+  test('should accept a valid user including nested objects', () => {
+    expect(SchemaValidator.default.validate('user', validUser)).toEqual([]);
+    ApiValidators.validateUserStructure(validUser);
+  });
+
+  test('should report every violation with JSON pointers', () => {
+    const invalidUser = {
+      ...validUser,
+      email: 'not-an-email',
+      address: { ...validUser.address, geo: { lat: 12, lng: '81.1496' } },
+      company: { name: 'Acme', catchPhrase: 'Ship it' },
+    };
+
+    const pointers = SchemaValidator.default.validate('user', invalidUser).map(v => v.pointer);
+
+    expect(pointers).toEqual(expect.arrayContaining(['/email', '/address/geo/lat', '/company/bs']));
+  });
+
+  test('should point at missing required properties', () => {
+    const violations = SchemaValidator.default.validate('post', { id: 1, title: 'Missing fields' });
+
+    expect(violations).toEqual(expect.arrayContaining([
+      expect.objectContaining({ pointer: '/body', keyword: 'required' }),
+      expect.objectContaining({ pointer: '/userId', keyword: 'required' }),
+    ]));
+  });
+
+  test('should fail the static validators with all violations in one message', () => {
+    expect(() => ApiValidators.validatePostStructure({ id: 0, title: '', body: 'x', userId: 1 }))
+      .toThrow(/Post should match schema:[\s\S]*\/id must be > 0[\s\S]*\/title must NOT have fewer than 1 characters/);
+  });
+
+  test('should validate against custom registered and inline schemas', () => {
+    const validator = new SchemaValidator().register('todo', {
+      type: 'object',
+      required: ['title', 'completed'],
+      properties: { title: { type: 'string' }, completed: { type: 'boolean' } },
+    });
+
+    expect(validator.validate('todo', { title: 'feed the cat', completed: false })).toEqual([]);
+    expect(validator.validate({ type: 'array', maxItems: 1 }, [1, 2])).toHaveLength(1);
+    expect(() => validator.validate('missing', {})).toThrow(/Schema "missing" is not registered/);
+  });
+});
@@ -0,0 +1,143 @@
+import { test, expect } from '../fixtures/test-fixtures';
+import { StubServer } from '../helpers/stub-server.helper';
+
+interface Note {
+  id: number;
+  text: string;
+  done: boolean;
+}
+
+test.describe('IndexedDB and Cookie Helpers', () => {
+  const server = new StubServer();
+
+  test.beforeAll(async () => {
+    server
+      .on('GET', '/', () => ({ headers: { 'Content-Type': 'text/html' }, body: '<!doctype html><title>storage</title>' }))
+      .on('POST', '/login', () => ({
+        headers: { 'Set-Cookie': 'session=s3cr3t; Path=/; HttpOnly; SameSite=Strict; Max-Age=3600' },
+        body: { ok: true },
+      }));
+    await server.start();
+  });
+
+  test.beforeEach(async ({ page }) => {
+    await page.goto(server.url);
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  test.describe('IndexedDB', () => {
+    test('should seed a new store and read it back', async ({ indexedDbHelper }) => {
+      await indexedDbHelper.seed<Note>('notes-app', 'notes', [
+        { id: 1, text: 'first', done: false },
+        { id: 2, text: 'second', done: true },
+      ], { keyPath: 'id' });
+
+      expect(await indexedDbHelper.listDatabases()).toEqual([{ name: 'notes-app', version: 1 }]);
+      expect(await indexedDbHelper.listObjectStores('notes-app')).toEqual([
+        { name: 'notes', keyPath: 'id', autoIncrement: false, indexes: [], count: 2 },
+      ]);
+      expect(await indexedDbHelper.get<Note>('notes-app', 'notes', 2)).toEqual({ id: 2, text: 'second', done: true });
+      expect(await indexedDbHelper.getRecords('notes-app', 'notes')).toEqual([
+        { key: 1, value: { id: 1, text: 'first', done: false } },
+        { key: 2, value: { id: 2, text: 'second', done: true } },
+      ]);
+    });
+
+    test('should add stores to existing databases and use out-of-line keys', async ({ indexedDbHelper }) => {
+      await indexedDbHelper.seed('notes-app', 'notes', [{ id: 1, text: 'first', done: false }], { keyPath: 'id' });
+      await indexedDbHelper.seed('notes-app', 'settings', [{ key: 'theme', value: 'dark' }]);
+
+      expect((await indexedDbHelper.listObjectStores('notes-app')).map(store => store.name)).toEqual(['notes', 'settings']);
+      expect(await indexedDbHelper.get('notes-app', 'settings', 'theme')).toBe('dark');
+
+      await indexedDbHelper.seed('notes-app', 'notes', [{ id: 5, text: 'only', done: false }], { replace: true });
+      expect(await indexedDbHelper.count('notes-app', 'notes')).toBe(1);
+
+      await indexedDbHelper.clear('notes-app', 'notes');
+      expect(await indexedDbHelper.getAll('notes-app', 'notes')).toEqual([]);
+
+      await indexedDbHelper.deleteDatabase('notes-app');
+      expect(await indexedDbHelper.listDatabases()).toEqual([]);
+    });
+
+    test('should wait for records written by the page', async ({ page, indexedDbHelper }) => {
+      await indexedDbHelper.seed('notes-app', 'notes', [], { keyPath: 'id' });
+      await page.evaluate(() => setTimeout(() => {
+        const opening = indexedDB.open('notes-app');
+        opening.onsuccess = () => {
+          opening.result.transaction('notes', 'readwrite').objectStore('notes').put({ id: 9, text: 'late', done: true });
+        };
+      }, 200));
+
+      const note = await indexedDbHelper.waitForRecord<Note>('notes-app', 'notes', candidate => candidate.done);
+
+      expect(note.text).toBe('late');
+    });
+
+    test('should report missing databases and stores clearly', async ({ indexedDbHelper }) => {
+      await expect(indexedDbHelper.getAll('nope', 'notes')).rejects.toThrow('IndexedDB database "nope" does not exist');
+      await expect(indexedDbHelper.listObjectStores('nope')).rejects.toThrow('IndexedDB database "nope" does not exist');
+
+      await indexedDbHelper.seed('notes-app', 'notes', [], { keyPath: 'id' });
+      await expect(indexedDbHelper.count('notes-app', 'todos'))
+        .rejects.toThrow('IndexedDB database "notes-app" has no object store "todos" (stores: notes)');
+    });
+  });
+
+  test.describe('Cookies', () => {
+    test('should inspect HttpOnly cookies set by the server', async ({ page, cookieHelper }) => {
+      await page.evaluate(() => fetch('/login', { method: 'POST' }));
+
+      expect(await page.evaluate(() => document.cookie)).toBe('');
+      const cookie = await cookieHelper.expectCookie('session', {
+        value: 's3cr3t',
+        httpOnly: true,
+        sameSite: 'Strict',
+        path: '/',
+        session: false,
+        expiresAfterSeconds: 3500,
+        expiresWithinSeconds: 3600,
+      });
+      expect(cookie.domain).toBe('127.0.0.1');
+    });
+
+    test('should seed cookies scoped to the page and report every mismatching attribute', async ({ page, cookieHelper }) => {
+      await cookieHelper.seed([
+        { name: 'consent', value: 'yes', maxAgeSeconds: 60 },
+        { name: 'theme', value: 'dark', sameSite: 'Lax' },
+      ]);
+
+      expect(await page.evaluate(() => document.cookie)).toBe('consent=yes; theme=dark');
+      await cookieHelper.expectCookie('theme', { session: true, sameSite: 'Lax' });
+
+      const failure = await cookieHelper.expectCookie('consent', { value: /^no$/, httpOnly: true, expiresAfterSeconds: 3600 })
+        .then(() => null, (error: Error) => error.message);
+      expect(failure).toContain('value: expected /^no$/, received yes');
+      expect(failure).toContain('httpOnly: expected true, received false');
+      expect(failure).toMatch(/expires: expected after 3600s, received \d+s/);
+    });
+
+    test('should seed page-scoped cookies with a path', async ({ page, cookieHelper }) => {
+      await cookieHelper.seed([{ name: 'admin', value: 'on', path: '/admin' }, { name: 'root', value: 'on', path: '/' }]);
+
+      expect(await page.evaluate(() => document.cookie)).toBe('root=on');
+      const cookie = await cookieHelper.expectCookie('admin', { path: '/admin', value: 'on' });
+      expect(cookie.domain).toBe(new URL(page.url()).hostname);
+    });
+
+    test('should remove cookies and wait for new ones', async ({ page, cookieHelper }) => {
+      await cookieHelper.seed([{ name: 'consent', value: 'yes' }]);
+      await cookieHelper.remove('consent');
+      await cookieHelper.expectNoCookie('consent');
+
+      await page.evaluate(() => setTimeout(() => { document.cookie = 'tracking=off; path=/'; }, 200));
+      const cookie = await cookieHelper.waitForCookie('tracking', candidate => candidate.value === 'off');
+
+      expect(cookie.httpOnly).toBe(false);
+      await expect(cookieHelper.expectCookie('missing')).rejects.toThrow(/Cookie "missing" should exist; present: tracking/);
+    });
+  });
+});
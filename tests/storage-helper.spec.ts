@@ -0,0 +1,112 @@
+import { test, expect } from '../fixtures/test-fixtures';
+import { StorageHelper, StorageCodec, diffValues, rawCodec } from '../helpers/storage.helper';
+import { StubServer } from '../helpers/stub-server.helper';
+
+interface Settings {
+  theme: 'light' | 'dark';
+  fontSize: number;
+  tags?: string[];
+}
+
+// Comma-separated "key=value" pairs, as some legacy apps store them
+const pairsCodec: StorageCodec<Record<string, string>> = {
+  encode: value => Object.entries(value).map(([key, item]) => `${key}=${item}`).join(','),
+  decode: raw => Object.fromEntries(raw.split(',').filter(Boolean).map(pair => pair.split('='))),
+};
+
+test.describe('Storage Helper', () => {
+  const server = new StubServer();
+
+  test.beforeAll(async () => {
+    server.on('GET', '/', () => ({ headers: { 'Content-Type': 'text/html' }, body: '<!doctype html><title>storage</title>' }));
+    await server.start();
+  });
+
+  test.beforeEach(async ({ page }) => {
+    await page.goto(server.url);
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  test('should get, set, patch and remove a typed JSON value', async ({ page }) => {
+    const settings = new StorageHelper<Settings>(page, 'settings');
+
+    expect(await settings.get()).toBeUndefined();
+    await settings.set({ theme: 'light', fontSize: 14 });
+    expect(await settings.patch({ theme: 'dark' })).toEqual({ theme: 'dark', fontSize: 14 });
+    expect(await settings.getRaw()).toBe('{"theme":"dark","fontSize":14}');
+
+    await settings.remove();
+    expect(await settings.exists()).toBe(false);
+  });
+
+  test('should target sessionStorage with raw and custom codecs', async ({ page }) => {
+    const token = new StorageHelper(page, 'token', { area: 'sessionStorage', codec: rawCodec });
+    const flags = new StorageHelper(page, 'flags', { area: 'sessionStorage', codec: pairsCodec, defaultValue: {} });
+
+    await token.set('abc.def');
+    await flags.patch({ beta: 'on' });
+    await flags.patch(current => ({ ...current, legacy: 'off' }));
+
+    expect(await page.evaluate(() => [sessionStorage.getItem('token'), sessionStorage.getItem('flags')])).toEqual(['abc.def', 'beta=on,legacy=off']);
+    expect(await page.evaluate(() => localStorage.length)).toBe(0);
+    expect(await flags.get()).toEqual({ beta: 'on', legacy: 'off' });
+  });
+
+  test('should validate values on read and write', async ({ page }) => {
+    const validate = (value: unknown) =>
+      typeof (value as Settings)?.fontSize === 'number' ? [] : ['/fontSize must be a number'];
+    const settings = new StorageHelper<Settings>(page, 'settings', { validate });
+
+    await expect(settings.set({ theme: 'dark' } as Settings)).rejects.toThrow('Invalid value on write of localStorage["settings"]:\n  /fontSize must be a number');
+
+    await page.evaluate(() => localStorage.setItem('settings', '{"theme":"dark"}'));
+    await expect(settings.get()).rejects.toThrow(/Invalid value on read of localStorage\["settings"\]/);
+
+    await page.evaluate(() => localStorage.setItem('settings', '{not json'));
+    await expect(settings.get()).rejects.toThrow(/localStorage\["settings"\] could not be decoded: .* \(raw: \{not json\)/);
+  });
+
+  test('should wait for a predicate on the decoded value', async ({ page }) => {
+    const settings = new StorageHelper<Settings>(page, 'settings', { timeout: 2000 });
+    await page.evaluate(() => setTimeout(() => localStorage.setItem('settings', '{"theme":"dark","fontSize":18}'), 200));
+
+    const value = await settings.waitFor(current => current?.theme === 'dark');
+
+    expect(value).toEqual({ theme: 'dark', fontSize: 18 });
+    await expect(new StorageHelper<Settings>(page, 'settings', { timeout: 300 }).waitFor(current => current?.fontSize === 99, 'font should grow'))
+      .rejects.toThrow(/font should grow/);
+  });
+
+  test('should diff a snapshot against the current value', async ({ page }) => {
+    const settings = new StorageHelper<Settings>(page, 'settings');
+    await settings.set({ theme: 'light', fontSize: 14, tags: ['a'] });
+    const before = await settings.snapshot();
+
+    await settings.set({ theme: 'dark', fontSize: 14, tags: ['a', 'b/c'] });
+
+    expect(await settings.diffSince(before)).toEqual([
+      { path: '/theme', kind: 'changed', before: 'light', after: 'dark' },
+      { path: '/tags/1', kind: 'added', after: 'b/c' },
+    ]);
+    expect(diffValues(undefined, { a: 1 })).toEqual([{ path: '', kind: 'added', after: { a: 1 } }]);
+    expect(diffValues({ 'a/b': 1, gone: true }, { 'a/b': 2 })).toEqual([
+      { path: '/a~1b', kind: 'changed', before: 1, after: 2 },
+      { path: '/gone', kind: 'removed', before: true },
+    ]);
+  });
+
+  test('should keep LocalStorageHelper working as a todo specialization', async ({ localStorageHelper }) => {
+    expect(await localStorageHelper.getAllTodos()).toEqual([]);
+
+    await localStorageHelper.addTodo({ id: '1', title: 'feed the cat', completed: false });
+    await localStorageHelper.addTodo({ id: '2', title: 'buy milk', completed: true });
+
+    await localStorageHelper.waitForTodoCount(2);
+    await localStorageHelper.waitForCompletedTodoCount(1);
+    expect((await localStorageHelper.getActiveTodos()).map(todo => todo.title)).toEqual(['feed the cat']);
+    await expect(localStorageHelper.setTodos([{ id: 3 } as never])).rejects.toThrow(/\[0\]\.id must be a string/);
+  });
+});
@@ -0,0 +1,105 @@
+import { Page } from '@playwright/test';
+import { test, expect } from '../fixtures/test-fixtures';
+import { StubServer } from '../helpers/stub-server.helper';
+
+// Minimal todo app: one write per add, none when filtering, a stray draft key and a buggy double write
+const APP_HTML = `<!doctype html><title>recorder</title>
+<input id="title"><button id="add">add</button><button id="filter">filter</button><button id="double">double</button>
+<script>
+  const load = () => JSON.parse(localStorage.getItem('react-todos') || '[]');
+  const save = todos => localStorage.setItem('react-todos', JSON.stringify(todos));
+  document.getElementById('title').addEventListener('input', event => sessionStorage.setItem('draft', event.target.value));
+  document.getElementById('add').addEventListener('click', () => {
+    const title = document.getElementById('title').value;
+    save([...load(), { id: String(load().length + 1), title, completed: false }]);
+    sessionStorage.removeItem('draft');
+  });
+  document.getElementById('filter').addEventListener('click', () => { location.hash = '#/active'; });
+  document.getElementById('double').addEventListener('click', () => { save(load()); save(load()); });
+</script>`;
+
+test.describe('Storage Mutation Recorder', () => {
+  const server = new StubServer();
+
+  test.beforeAll(async () => {
+    server.on('GET', '/', () => ({ headers: { 'Content-Type': 'text/html' }, body: APP_HTML }));
+    await server.start();
+  });
+
+  test.beforeEach(async ({ page }) => {
+    await page.goto(server.url);
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  const addTodo = async (page: Page, title: string) => {
+    await page.fill('#title', title);
+    await page.click('#add');
+  };
+
+  test('should record exactly one write per added todo with decoded payloads', async ({ page, localStorageHelper }) => {
+    const recorder = await localStorageHelper.startRecording();
+
+    await recorder.expectWritesDuring(() => addTodo(page, 'feed the cat'), 1);
+    await recorder.expectWritesDuring(() => addTodo(page, 'buy milk'), 1);
+
+    expect((await recorder.values()).map(todos => todos.map(todo => todo.title))).toEqual([
+      ['feed the cat'],
+      ['feed the cat', 'buy milk'],
+    ]);
+    const [first, second] = await recorder.writes();
+    expect(second.oldValue).toBe(first.value);
+    expect(second.timestamp).toBeGreaterThanOrEqual(first.timestamp);
+    expect(first.elapsedMs).toBeGreaterThanOrEqual(0);
+  });
+
+  test('should assert no writes while filtering', async ({ page, localStorageHelper }) => {
+    await addTodo(page, 'feed the cat');
+    const recorder = await localStorageHelper.startRecording();
+
+    await recorder.expectNoMutationsDuring(() => page.click('#filter'));
+
+    const failure = await recorder.expectNoMutationsDuring(() => page.click('#double'))
+      .then(() => null, (error: Error) => error.message);
+    expect(failure).toContain('Expected no storage mutation(s) of localStorage["react-todos"] during the action');
+    expect(failure).toMatch(/\+\d+ms setItem localStorage\["react-todos"\] = \[\{"id":"1"/);
+  });
+
+  test('should scope to the helper key unless all keys are requested', async ({ page, localStorageHelper }) => {
+    const todosOnly = await localStorageHelper.startRecording();
+    const everything = await localStorageHelper.startRecording({ allKeys: true });
+
+    await addTodo(page, 'feed the cat');
+    await page.evaluate(() => localStorage.clear());
+
+    await todosOnly.expectSequence([
+      { type: 'setItem', key: 'react-todos', oldValue: null },
+      { type: 'clear', area: 'localStorage', key: null },
+    ]);
+    await everything.expectSequence([
+      { type: 'setItem', area: 'sessionStorage', key: 'draft', value: 'feed the cat' },
+      { type: 'setItem', area: 'localStorage', key: 'react-todos' },
+      { type: 'removeItem', area: 'sessionStorage', key: 'draft', oldValue: 'feed the cat' },
+      { type: 'clear', area: 'localStorage' },
+    ]);
+    await everything.expectCount(2, { area: 'sessionStorage' });
+  });
+
+  test('should keep recording across reloads until stopped', async ({ page, localStorageHelper }) => {
+    const recorder = await localStorageHelper.startRecording();
+    await addTodo(page, 'before reload');
+
+    await page.reload();
+    await addTodo(page, 'after reload');
+    await recorder.expectCount(2, { type: 'setItem' });
+
+    await recorder.stop();
+    await addTodo(page, 'not recorded');
+    await recorder.expectCount(2);
+
+    await recorder.reset();
+    expect(await recorder.timeline()).toBe('  (none)');
+  });
+});
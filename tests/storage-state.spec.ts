@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Page } from '@playwright/test';
+import { test as base, expect } from '../fixtures/test-fixtures';
+import { StubServer } from '../helpers/stub-server.helper';
+
+// The page records what its own scripts saw on start-up, before any test code runs
+const APP_HTML = `<!doctype html><title>state</title><script>
+  document.documentElement.dataset.initial = JSON.stringify({
+    prefs: localStorage.getItem('prefs'),
+    tab: sessionStorage.getItem('tab'),
+    cookie: document.cookie,
+  });
+</script>`;
+
+// Worker-scoped so the URL is known while the seeded context is created
+const test = base.extend<{}, { appUrl: string }>({
+  appUrl: [async ({}, use) => {
+    const server = new StubServer().on('GET', '/', () => ({ headers: { 'Content-Type': 'text/html' }, body: APP_HTML }));
+    await use(await server.start());
+    await server.stop();
+  }, { scope: 'worker' }],
+});
+
+test.use({ storageSnapshotDir: async ({}, use, testInfo) => use(path.join(testInfo.project.outputDir, 'storage-snapshots')) });
+
+const initialState = async (page: Page) =>
+  JSON.parse(await page.locator('html').getAttribute('data-initial') || '{}');
+
+test.describe('Storage seeding at context creation', () => {
+  test.use({
+    storageSeed: async ({ appUrl }, use) => use({
+      origins: { [appUrl]: { localStorage: { prefs: { theme: 'dark' } }, sessionStorage: { tab: 'inbox' } } },
+      cookies: [{ name: 'consent', value: 'yes', url: appUrl }],
+    }),
+  });
+
+  test('should expose seeded storage to the first page script', async ({ page, appUrl }) => {
+    await page.goto(appUrl);
+
+    expect(await initialState(page)).toEqual({ prefs: '{"theme":"dark"}', tab: 'inbox', cookie: 'consent=yes' });
+  });
+
+  test('should seed sessionStorage once per tab so reloads keep app changes', async ({ page, context, appUrl }) => {
+    await page.goto(appUrl);
+    await page.evaluate(() => sessionStorage.setItem('tab', 'archive'));
+    await page.reload();
+
+    expect((await initialState(page)).tab).toBe('archive');
+
+    const second = await context.newPage();
+    await second.goto(appUrl);
+    expect((await initialState(second)).tab).toBe('inbox');
+  });
+});
+
+test.describe('Storage snapshots', () => {
+  test.describe.configure({ mode: 'serial' });
+
+  test('should restore a snapshot in place', async ({ page, appUrl, storageStateHelper, cookieHelper }) => {
+    await page.goto(appUrl);
+    await page.evaluate(() => {
+      localStorage.setItem('prefs', 'v1');
+      sessionStorage.setItem('tab', 'inbox');
+    });
+    await cookieHelper.seed([{ name: 'consent', value: 'yes' }]);
+    const checkpoint = await storageStateHelper.snapshot();
+
+    await page.evaluate(() => {
+      localStorage.setItem('prefs', 'v2');
+      localStorage.setItem('extra', '1');
+      sessionStorage.clear();
+    });
+    await cookieHelper.clear();
+    await storageStateHelper.restore(checkpoint);
+
+    expect(await page.evaluate(() => ({ ...localStorage }))).toEqual({ prefs: 'v1' });
+    expect(await page.evaluate(() => ({ ...sessionStorage }))).toEqual({ tab: 'inbox' });
+    await cookieHelper.expectCookie('consent', { value: 'yes' });
+  });
+
+  test('should save a named snapshot to disk', async ({ page, appUrl, storageStateHelper }, testInfo) => {
+    await page.goto(appUrl);
+    await page.evaluate(() => {
+      localStorage.setItem('prefs', 'from-snapshot');
+      sessionStorage.setItem('tab', 'drafts');
+    });
+
+    await storageStateHelper.snapshot('prefs saved');
+
+    const file = path.join(testInfo.project.outputDir, 'storage-snapshots', 'prefs_saved.json');
+    const saved = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    expect(saved.storageState.origins).toEqual([{ origin: appUrl, localStorage: [{ name: 'prefs', value: 'from-snapshot' }], indexedDB: [] }]);
+    expect(saved.sessionStorage).toEqual({ [appUrl]: { tab: 'drafts' } });
+  });
+
+  test.describe('starting from a named snapshot', () => {
+    test.use({ storageSnapshot: 'prefs saved' });
+
+    test('should start a new context from the saved snapshot', async ({ page, appUrl }) => {
+      await page.goto(appUrl);
+
+      expect(await initialState(page)).toEqual({ prefs: 'from-snapshot', tab: 'drafts', cookie: '' });
+    });
+  });
+
+  test('should fail clearly for unknown snapshots', async ({ storageStateHelper }) => {
+    expect(() => storageStateHelper.load('missing')).toThrow(/Storage snapshot "missing" not found at .*missing\.json; available: prefs_saved/);
+  });
+});
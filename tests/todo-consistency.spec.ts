@@ -0,0 +1,70 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { test, expect, TEST_DATA } from '../fixtures/test-fixtures';
+import { expectedTodoView } from '../pages/todo.page';
+
+test.describe('Todo App - UI and Storage Consistency', () => {
+  test('should derive the expected view from storage and the filter', () => {
+    const stored = [
+      { id: '1', title: 'feed the cat', completed: true },
+      { id: '2', title: 'buy some cheese', completed: false },
+    ];
+
+    expect(expectedTodoView(stored, 'active')).toEqual({
+      visible: [{ title: 'buy some cheese', completed: false }],
+      countText: '1 item left',
+      clearCompletedVisible: true,
+    });
+    expect(expectedTodoView([], 'all')).toEqual({ visible: [], countText: null, clearCompletedVisible: false });
+  });
+
+  test('should stay consistent through actions under every filter', async ({ todoPage }) => {
+    await todoPage.goto(TEST_DATA.urls.todoApp);
+    await todoPage.expectTodoStateConsistent();
+
+    await todoPage.addMultipleTodos([...TEST_DATA.todos]);
+    await todoPage.item(TEST_DATA.todos[1]).toggle();
+    for (const filter of ['active', 'completed', 'all'] as const) {
+      await todoPage.filterBy(filter);
+      const report = await todoPage.expectTodoStateConsistent();
+      expect(report.filter).toBe(filter);
+    }
+
+    await todoPage.clearCompleted();
+    const report = await todoPage.expectTodoStateConsistent();
+    expect(report.rendered.countText).toBe('2 items left');
+  });
+
+  test('should report storage changed behind the page', async ({ todoPage, localStorageHelper }) => {
+    await todoPage.goto(TEST_DATA.urls.todoApp);
+    await todoPage.addMultipleTodos([...TEST_DATA.todos.slice(0, 2)]);
+    const [first, second] = await localStorageHelper.getAllTodos();
+    await localStorageHelper.setTodos([{ ...second, completed: true }, first]);
+
+    await expect(todoPage.expectTodoStateConsistent({ timeout: 500 })).rejects.toThrow([
+      'Rendered todos should match localStorage under the "all" filter',
+      `  /visible/0/title: storage says "${second.title}", page shows "${first.title}"`,
+      '  /visible/0/completed: storage says true, page shows false',
+      `  /visible/1/title: storage says "${first.title}", page shows "${second.title}"`,
+      '  /countText: storage says "1 item left", page shows "2 items left"',
+      '  /clearCompletedVisible: storage says true, page shows false',
+    ].join('\n'));
+  });
+
+  test('should report a completed class on the wrong item', async ({ page, todoPage }) => {
+    // Inject a bug: each item is styled with the completion of the next one
+    const html = fs.readFileSync(path.join(__dirname, '..', 'mocks', 'todomvc', 'index.html'), 'utf-8').replace(
+      "item.className = [todo.completed ? 'completed' : ''",
+      "item.className = [todos[(todos.indexOf(todo) + 1) % todos.length].completed ? 'completed' : ''"
+    );
+    await page.route(TEST_DATA.urls.todoApp, route => route.fulfill({ contentType: 'text/html', body: html }));
+    await todoPage.goto(TEST_DATA.urls.todoApp);
+    await todoPage.addMultipleTodos(['feed the cat', 'buy some cheese']);
+    await todoPage.todoItems.nth(1).getByRole('checkbox').click();
+
+    await expect(todoPage.expectTodoStateConsistent({ timeout: 500 })).rejects.toThrow([
+      '  /visible/0/completed: storage says false, page shows true',
+      '  /visible/1/completed: storage says true, page shows false',
+    ].join('\n'));
+  });
+});
@@ -19,8 +19,12 @@ test.describe('Todo App - Complete Test Suite', () => {
     });
 
     test('should add multiple todo items', async ({ todoPage, localStorageHelper }) => {
-      await todoPage.addMultipleTodos([...TEST_DATA.todos]);
+      const state = await todoPage.addMultipleTodos([...TEST_DATA.todos]);
       
+      // Actions return the state they waited for
+      expect(state.visible.map(todo => todo.title)).toEqual([...TEST_DATA.todos]);
+      expect(state.itemsLeft).toBe(3);
+
       // Verify all todos are displayed
       await expect(todoPage.todoTitles).toHaveText([...TEST_DATA.todos]);
       
@@ -98,7 +102,9 @@ test.describe('Todo App - Complete Test Suite', () => {
     });
 
     test('should filter completed todos', async ({ todoPage }) => {
-      await todoPage.filterBy('completed');
+      const state = await todoPage.filterBy('completed');
+      expect(state.filter).toBe('completed');
+      expect(state.visible).toEqual([{ title: TEST_DATA.todos[1], completed: true }]);
       
       // Should show only completed todos
       await expect(todoPage.todoItems).toHaveCount(1);
@@ -0,0 +1,54 @@
+import { test, expect, TEST_DATA } from '../fixtures/test-fixtures';
+
+test.describe('Todo App - Addressing Todo Items', () => {
+  test.beforeEach(async ({ todoPage }) => {
+    await todoPage.goto(TEST_DATA.urls.todoApp);
+    await todoPage.addMultipleTodos(['buy some cheese', 'feed the cat', 'book a doctors appointment']);
+  });
+
+  test('should act on a todo by title through its component', async ({ todoPage, localStorageHelper }) => {
+    const cat = todoPage.item('feed the cat');
+
+    const state = await cat.toggle();
+    expect(state.stored.map(todo => todo.completed)).toEqual([false, true, false]);
+    expect(await cat.isCompleted()).toBe(true);
+
+    // The same component follows its todo after the list shifts
+    await todoPage.item('buy some cheese').delete();
+    await todoPage.filterBy('completed');
+    expect(await cat.index()).toBe(0);
+    await cat.uncheck();
+    await todoPage.filterBy('all');
+    await cat.edit('feed the dog');
+
+    expect(await todoPage.item('feed the dog').getTitle()).toBe('feed the dog');
+    await localStorageHelper.waitForTodoTitle('feed the dog');
+  });
+
+  test('should accept titles, patterns and predicates in TodoPage actions', async ({ todoPage }) => {
+    await todoPage.toggleTodo(/doctor/);
+    expect(await todoPage.isTodoCompleted('book a doctors appointment')).toBe(true);
+
+    await todoPage.editTodo(todo => todo.completed, 'book a dentist');
+    const state = await todoPage.deleteTodo(/^buy/);
+
+    expect(state.visible).toEqual([
+      { title: 'feed the cat', completed: false },
+      { title: 'book a dentist', completed: true },
+    ]);
+  });
+
+  test('should report missing and ambiguous todos', async ({ todoPage }) => {
+    await expect(todoPage.item('walk the dog').toggle()).rejects.toThrow(
+      'No visible todo matches todo "walk the dog" (filter: all). Visible todos: #0 "buy some cheese", #1 "feed the cat", #2 "book a doctors appointment"'
+    );
+    await expect(todoPage.deleteTodo(/e/)).rejects.toThrow(
+      '3 visible todos match todo matching /e/: #0 "buy some cheese", #1 "feed the cat", #2 "book a doctors appointment". Use a more specific title, pattern or predicate.'
+    );
+
+    await todoPage.filterBy('completed');
+    await expect(todoPage.item('feed the cat').isCompleted()).rejects.toThrow(
+      'No visible todo matches todo "feed the cat" (a stored todo does, but the "completed" filter hides it). Visible todos: (none)'
+    );
+  });
+});
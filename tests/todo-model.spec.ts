@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { test, expect, TEST_DATA } from '../fixtures/test-fixtures';
+import { TodoAction, TodoModel, describeAction, generateTodoActions, isValidSequence } from '../helpers/todoModel.helper';
+
+test.describe('Todo App - Model-Based Testing', () => {
+  test('should generate the same valid sequence for the same seed', () => {
+    const actions = generateTodoActions(7, 30);
+
+    expect(generateTodoActions(7, 30)).toEqual(actions);
+    expect(generateTodoActions(8, 30)).not.toEqual(actions);
+    expect(isValidSequence(actions)).toBe(true);
+    expect(isValidSequence([{ type: 'toggle', index: 0 }])).toBe(false);
+  });
+
+  test('should predict filtering, completion, trimming and empty edits', () => {
+    const model = new TodoModel();
+    const actions: TodoAction[] = [
+      { type: 'add', title: 'feed the cat' },
+      { type: 'add', title: ' buy some cheese ' },
+      { type: 'add', title: 'call mum' },
+      { type: 'toggle', index: 0 },
+      { type: 'filter', filter: 'active' },
+      { type: 'edit', index: 0, title: '  buy some milk  ' },
+      { type: 'edit', index: 1, title: '' },
+    ];
+    actions.forEach(action => model.apply(action));
+
+    expect(model.expected()).toEqual({
+      visible: ['buy some milk'],
+      completed: [false],
+      itemsLeft: 1,
+      clearCompletedVisible: true,
+      stored: [{ title: 'feed the cat', completed: true }, { title: 'buy some milk', completed: false }],
+    });
+    expect(() => model.apply({ type: 'uncheck', index: 0 })).toThrow('Action uncheck #0 is not possible in the current state');
+  });
+
+  test('should keep the app consistent with the model', async ({ todoModelRunner }) => {
+    const result = await todoModelRunner.expectConforms({ steps: 15 });
+
+    expect(result.run.problems).toEqual([]);
+    expect(test.info().annotations).toContainEqual({ type: 'todo-model-seed', description: `${result.seed} (rerun with TODO_MODEL_SEED=${result.seed})` });
+  });
+
+  test('should shrink a failing sequence into a ready-to-paste test', async ({ page, todoModelRunner }) => {
+    // Inject a bug: "Mark all as complete" updates the page but never reaches localStorage
+    const html = fs.readFileSync(path.join(__dirname, '..', 'mocks', 'todomvc', 'index.html'), 'utf-8').replace(
+      'toggleAll.addEventListener(\'change\', () => update(todos.map(todo => ({ ...todo, completed: toggleAll.checked }))));',
+      'toggleAll.addEventListener(\'change\', () => { todos = todos.map(todo => ({ ...todo, completed: toggleAll.checked })); render(); });'
+    );
+    await page.route(TEST_DATA.urls.todoApp, route => route.fulfill({ contentType: 'text/html', body: html }));
+
+    const result = await todoModelRunner.explore({ seed: 1, steps: 12 });
+
+    expect(result.run.actions.slice(0, 4).map(describeAction)).toEqual(["add 'water the plants'", 'toggle #0', "add 'feed the cat'", 'toggleAll']);
+    expect(result.run.failedStep).toBe(3);
+    expect(result.shrunk?.actions).toEqual([{ type: 'add', title: 'feed the cat' }, { type: 'toggleAll' }]);
+    expect(result.shrunk?.problems).toEqual(['/stored/0/completed: expected true, received false']);
+    expect(result.reproduction).toBe([
+      "test('should match the model (seed 1)', async ({ todoPage, localStorageHelper }) => {",
+      '  await todoPage.goto(TEST_DATA.urls.todoApp);',
+      "  await todoPage.addTodo('feed the cat');",
+      '  await todoPage.toggleAllTodos();',
+      '',
+      '  // /stored/0/completed: expected true, received false',
+      "  await expect(todoPage.todoTitles).toHaveText(['feed the cat']);",
+      "  await expect(todoPage.todoItems).toHaveClass(['completed']);",
+      "  await expect(todoPage.todoCount).toHaveText('0 items left');",
+      '  await expect(todoPage.clearCompletedButton).toBeVisible();',
+      '  expect((await localStorageHelper.getAllTodos()).map(({ title, completed }) => ({ title, completed }))).toEqual([',
+      "    { title: 'feed the cat', completed: true },",
+      '  ]);',
+      '});',
+    ].join('\n'));
+  });
+});